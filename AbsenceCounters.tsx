@@ -0,0 +1,92 @@
+import React from 'react';
+import { Card, CardContent, Typography, Box, TextField, Grid } from '@mui/material';
+import { AbsenceCounters as Counters, SELF_CERTIFIED_LIMIT } from './absences';
+
+export interface AbsenceCountersProps {
+  language: 'en' | 'no';
+  year: number;
+  counters: Counters;
+  vacationDays: number;
+  onVacationDaysChange: (days: number) => void;
+}
+
+const translations = {
+  en: {
+    title: 'Absence',
+    vacation: 'Vacation days',
+    taken: 'taken',
+    planned: 'planned',
+    remaining: 'remaining',
+    allowance: 'Days per year',
+    selfCertified: 'Self-certified sick days',
+    lastYear: 'used in the last 12 months'
+  },
+  no: {
+    title: 'Fravær',
+    vacation: 'Feriedager',
+    taken: 'tatt ut',
+    planned: 'planlagt',
+    remaining: 'igjen',
+    allowance: 'Dager per år',
+    selfCertified: 'Egenmeldingsdager',
+    lastYear: 'brukt siste 12 måneder'
+  }
+};
+
+const AbsenceCounters: React.FC<AbsenceCountersProps> = ({
+  language,
+  year,
+  counters,
+  vacationDays,
+  onVacationDaysChange
+}) => {
+  const t = translations[language];
+
+  return (
+    <Card sx={{ bgcolor: '#1e1e1e', boxShadow: 'none', borderRadius: 2, mb: 4 }}>
+      <CardContent sx={{ p: 3 }}>
+        <Typography sx={{ color: '#00e676', mb: 2, fontSize: '1.25rem', fontWeight: 700, letterSpacing: '0.01em' }}>
+          {t.title} ({year})
+        </Typography>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={6}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.8)', fontSize: '1.1rem', fontWeight: 500 }}>{t.vacation}</Typography>
+            <Typography sx={{ color: '#fff', fontSize: '2rem', fontWeight: 700 }}>
+              {counters.vacationRemaining} {t.remaining}
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mt: 1 }}>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)' }}>
+                {counters.vacationTaken} {t.taken} · {counters.vacationPlanned} {t.planned}
+              </Typography>
+              <TextField
+                label={t.allowance}
+                type="number"
+                size="small"
+                value={vacationDays}
+                onChange={e => onVacationDaysChange(Math.max(0, parseInt(e.target.value) || 0))}
+                inputProps={{ min: '0' }}
+                InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)' } }}
+                sx={{ width: 130, bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+              />
+            </Box>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.8)', fontSize: '1.1rem', fontWeight: 500 }}>{t.selfCertified}</Typography>
+            <Typography
+              sx={{
+                color: counters.selfCertifiedUsed >= SELF_CERTIFIED_LIMIT ? '#ff5252' : '#fff',
+                fontSize: '2rem',
+                fontWeight: 700
+              }}
+            >
+              {counters.selfCertifiedUsed} / {SELF_CERTIFIED_LIMIT}
+            </Typography>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', mt: 1 }}>{t.lastYear}</Typography>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AbsenceCounters;
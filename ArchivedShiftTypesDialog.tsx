@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Select, MenuItem, Divider } from '@mui/material';
+import { ShiftConfig, WorkedDays } from './payEngine';
+import { getJobId } from './jobs';
+
+export interface ArchivedShiftTypesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  language: 'en' | 'no';
+  shiftTypes: ShiftConfig[];
+  workedDays: WorkedDays;
+  getShiftLabel: (shift: ShiftConfig, language: 'en' | 'no') => string;
+  onReassign: (fromType: string, toType: string) => void;
+  onUnarchive: (shiftType: string) => void;
+  onDelete: (shiftType: string) => void;
+}
+
+const translations = {
+  en: {
+    title: 'Archived Shift Types',
+    hint: 'Shift types deleted while worked days still used them. Their days keep their pay; move them to another type of the same job, or restore the type.',
+    none: 'No archived shift types',
+    days: 'worked days',
+    moveTo: 'Move days to',
+    move: 'Move',
+    unarchive: 'Restore',
+    delete: 'Delete',
+    close: 'Close'
+  },
+  no: {
+    title: 'Arkiverte vakttyper',
+    hint: 'Vakttyper som ble slettet mens arbeidsdager fortsatt brukte dem. Dagene beholder lønnen sin; flytt dem til en annen vakttype i samme jobb, eller gjenopprett vakttypen.',
+    none: 'Ingen arkiverte vakttyper',
+    days: 'arbeidsdager',
+    moveTo: 'Flytt dagene til',
+    move: 'Flytt',
+    unarchive: 'Gjenopprett',
+    delete: 'Slett',
+    close: 'Lukk'
+  }
+};
+
+const ArchivedShiftTypesDialog: React.FC<ArchivedShiftTypesDialogProps> = ({
+  open,
+  onClose,
+  language,
+  shiftTypes,
+  workedDays,
+  getShiftLabel,
+  onReassign,
+  onUnarchive,
+  onDelete
+}) => {
+  const [targets, setTargets] = useState<{ [shiftType: string]: string }>({});
+  const t = translations[language];
+
+  const archived = shiftTypes.filter(shift => shift.archived);
+  const allDays = Object.values(workedDays).flat();
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: {
+          bgcolor: '#1e1e1e',
+          color: '#fff',
+          minWidth: 420,
+        },
+      }}
+    >
+      <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.title}</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.hint}</Typography>
+        {archived.length === 0 && (
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic' }}>{t.none}</Typography>
+        )}
+        {archived.map((shift, index) => {
+          const dayCount = allDays.filter(wd => wd.shiftType === shift.type).length;
+          // Days stay with their job, so only that job's active types are offered
+          const options = shiftTypes.filter(s => !s.archived && getJobId(s) === getJobId(shift));
+          const target = targets[shift.type] || '';
+          return (
+            <Box key={shift.type}>
+              {index > 0 && <Divider sx={{ borderColor: 'rgba(255, 255, 255, 0.1)', my: 1.5 }} />}
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Box sx={{ width: 14, height: 14, borderRadius: '50%', bgcolor: shift.color }} />
+                <Typography sx={{ color: '#fff', fontWeight: 600, flexGrow: 1 }}>{getShiftLabel(shift, language)}</Typography>
+                <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem' }}>{dayCount} {t.days}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Select
+                  size="small"
+                  displayEmpty
+                  value={target}
+                  onChange={e => setTargets(prev => ({ ...prev, [shift.type]: e.target.value }))}
+                  disabled={dayCount === 0 || options.length === 0}
+                  sx={{ bgcolor: '#232323', color: '#fff', flexGrow: 1 }}
+                >
+                  <MenuItem value="" disabled>{t.moveTo}</MenuItem>
+                  {options.map(option => (
+                    <MenuItem key={option.type} value={option.type}>{getShiftLabel(option, language)}</MenuItem>
+                  ))}
+                </Select>
+                <Button
+                  onClick={() => onReassign(shift.type, target)}
+                  disabled={!target || dayCount === 0}
+                  sx={{ color: '#00e676' }}
+                >
+                  {t.move}
+                </Button>
+                <Button onClick={() => onUnarchive(shift.type)} sx={{ color: 'rgba(255,255,255,0.7)' }}>
+                  {t.unarchive}
+                </Button>
+                <Button onClick={() => onDelete(shift.type)} disabled={dayCount > 0} sx={{ color: '#ff5252' }}>
+                  {t.delete}
+                </Button>
+              </Box>
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.close}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ArchivedShiftTypesDialog;
@@ -0,0 +1,171 @@
+import React, { useState, useMemo } from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField, Divider } from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { WorkedDays, PayContext, RateChange, RetroactivePay, ShiftConfig, calculateRetroactivePay, toDateKey } from './payEngine';
+
+export interface BackPayDialogProps {
+  open: boolean;
+  onClose: () => void;
+  language: 'en' | 'no';
+  workedDays: WorkedDays;
+  payContext: PayContext;
+  formatAmount: (amount: number, opts?: { isYAxisLabel?: boolean }) => string;
+  getShiftLabel: (shift: ShiftConfig, language: 'en' | 'no') => string;
+  getMonthName: (month: number) => string;
+  onDownload: (report: RetroactivePay) => void;
+  onApply?: (change: RateChange) => void;
+}
+
+const translations = {
+  en: {
+    title: 'Back Pay Calculator',
+    hint: 'Enter the rate from a backdated wage settlement. Every day worked since it applies is priced again and compared with what was paid.',
+    newRate: 'New base rate',
+    effectiveFrom: 'Effective from',
+    noDays: 'No worked days since this date',
+    total: 'Total back pay',
+    close: 'Close',
+    download: 'Download Report',
+    apply: 'Save to Rate History'
+  },
+  no: {
+    title: 'Etterbetaling',
+    hint: 'Legg inn satsen fra et tariffoppgjør med tilbakevirkende kraft. Hver arbeidsdag siden den gjelder fra beregnes på nytt og sammenlignes med det som ble utbetalt.',
+    newRate: 'Ny grunnlønn',
+    effectiveFrom: 'Gjelder fra',
+    noDays: 'Ingen arbeidsdager siden denne datoen',
+    total: 'Total etterbetaling',
+    close: 'Lukk',
+    download: 'Last ned rapport',
+    apply: 'Lagre i lønnshistorikk'
+  }
+};
+
+const BackPayDialog: React.FC<BackPayDialogProps> = ({
+  open,
+  onClose,
+  language,
+  workedDays,
+  payContext,
+  formatAmount,
+  getShiftLabel,
+  getMonthName,
+  onDownload,
+  onApply
+}) => {
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [rate, setRate] = useState('');
+  const t = translations[language];
+
+  const report = useMemo(() => {
+    const newRate = parseFloat(rate);
+    if (!effectiveFrom || isNaN(newRate) || newRate <= 0 || effectiveFrom > toDateKey(new Date())) return undefined;
+    return calculateRetroactivePay(workedDays, payContext, { effectiveFrom, rate: newRate });
+  }, [effectiveFrom, rate, workedDays, payContext]);
+
+  const handleApply = () => {
+    if (!report) return;
+    if (typeof onApply === 'function') {
+      onApply(report.change);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: {
+          bgcolor: '#1e1e1e',
+          color: '#fff',
+          minWidth: 420,
+        },
+      }}
+    >
+      <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.title}</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.hint}</Typography>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, flexGrow: 1 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500 }}>{t.effectiveFrom}</Typography>
+            <TextField
+              type="date"
+              size="small"
+              value={effectiveFrom}
+              onChange={e => setEffectiveFrom(e.target.value)}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+            />
+          </Box>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500 }}>{t.newRate}</Typography>
+            <TextField
+              type="number"
+              size="small"
+              value={rate}
+              onChange={e => setRate(e.target.value)}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 130 }}
+            />
+          </Box>
+        </Box>
+        {report && report.months.length === 0 && (
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic' }}>{t.noDays}</Typography>
+        )}
+        {report && report.months.map(monthPay => (
+          <Box key={`${monthPay.year}-${monthPay.month}`} sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography sx={{ color: '#fff', fontWeight: 600, textTransform: 'capitalize' }}>
+                {getMonthName(monthPay.month)} {monthPay.year}
+              </Typography>
+              <Typography sx={{ color: '#00e676', fontWeight: 600 }}>{formatAmount(monthPay.difference)}</Typography>
+            </Box>
+            {Object.entries(monthPay.shiftData).map(([type, summary]) => {
+              const shift = payContext.shiftTypes.find(s => s.type === type);
+              return (
+                <Box key={type} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, pl: 2 }}>
+                  <Typography sx={{ color: shift?.color || 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem' }}>
+                    {shift ? getShiftLabel(shift, language) : type} ({summary.days})
+                  </Typography>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem' }}>
+                    {formatAmount(summary.paid)} → {formatAmount(summary.owed)}
+                  </Typography>
+                </Box>
+              );
+            })}
+          </Box>
+        ))}
+        {report && report.months.length > 0 && (
+          <>
+            <Divider sx={{ borderColor: 'rgba(255, 255, 255, 0.1)', my: 1 }} />
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Typography sx={{ color: '#fff', fontWeight: 700 }}>{t.total}</Typography>
+              <Typography sx={{ color: '#00e676', fontWeight: 700 }}>{formatAmount(report.difference)}</Typography>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.close}</Button>
+        <Button
+          onClick={() => report && onDownload(report)}
+          disabled={!report || report.months.length === 0}
+          startIcon={<DownloadIcon />}
+          sx={{ color: '#00e676' }}
+        >
+          {t.download}
+        </Button>
+        <Button
+          onClick={handleApply}
+          disabled={!report}
+          variant="contained"
+          sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}
+        >
+          {t.apply}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BackPayDialog;
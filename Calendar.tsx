@@ -1,15 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { Card, CardContent, Typography, Grid, IconButton, Box, Button, TextField, InputAdornment } from '@mui/material';
-import { ChevronLeft, ChevronRight, Edit as EditIcon, Check as CheckIcon, Close as CloseIcon, Add as AddIcon, Delete as DeleteIcon, Backspace as BackspaceIcon, Download as DownloadIcon } from '@mui/icons-material';
+import React, { useState } from 'react';
+import { Card, CardContent, Typography, Grid, IconButton, Box, Button, TextField, InputAdornment, Dialog, DialogTitle, DialogContent, DialogActions, Select, MenuItem } from '@mui/material';
+import { ChevronLeft, ChevronRight, Edit as EditIcon, Check as CheckIcon, Close as CloseIcon, Add as AddIcon, Delete as DeleteIcon, Backspace as BackspaceIcon, Layers as LayersIcon, AccessTime as AccessTimeIcon, Download as DownloadIcon, Undo as UndoIcon, Redo as RedoIcon, Repeat as RepeatIcon } from '@mui/icons-material';
 import { SxProps, Theme } from '@mui/material/styles';
+import { ShiftConfig, MonthPay, PremiumWindow, WorkDay, WorkDayTimes, WorkDayStatus, WORK_DAY_STATUSES, AbsenceCategory, AbsencePay, ABSENCE_CATEGORIES, ABSENCE_PAYS, calculateShiftPay, calculatePremiums, resolveWorkDayShift, hasWorkDayOverride, getWorkDayStatus } from './payEngine';
+import { HolidayProvider } from './holidays';
+import { getJobId } from './jobs';
 
 interface CalendarProps {
   year: number;
   month: number;
-  workedDays: { [key: number]: string };
-  onDayClick: (day: number, shiftType: string) => void;
+  workedDays: { [key: number]: WorkDay[] };
+  onDayClick: (day: number, shiftType: string, stack?: boolean) => void;
+  onWorkDayTimesChange: (day: number, index: number, times: WorkDayTimes) => void;
+  onWorkDayStatusChange?: (day: number, index: number, status: WorkDayStatus) => void;
   onMonthChange: (month: number, year: number) => void;
   baseRate: number;
+  // Base rate per job for the month, when shifts of several jobs are shown
+  jobRates?: { [jobId: string]: number };
   onShiftHoursChange: (shiftType: string, hours: number, overtimeMultiplier: number) => void;
   onShiftTypesChange: (shiftTypes: ShiftConfig[]) => void;
   language: 'en' | 'no';
@@ -17,19 +24,32 @@ interface CalendarProps {
   currencyConfig: { currency: string; position: 'before' | 'after' };
   formatAmount: (amount: number, opts?: { isYAxisLabel?: boolean }) => string;
   shiftTypes: ShiftConfig[];
+  monthPay: MonthPay;
+  holidays: HolidayProvider;
+  premiumWindows: PremiumWindow[];
+  // Left out when there is nothing to undo or redo
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onRotationOpen?: () => void;
+  // Shift type a previewed rotation would add on each day of the month
+  previewDays?: { [day: number]: string };
 }
 
-interface ShiftConfig {
-  type: string;
-  label: string;
-  color: string;
-  hours: number;
-  overtimeMultiplier: number;
-  startTime?: string;
-  endTime?: string;
-  labelEn: string;
+interface ActualTimesDraft {
+  startTime: string;
+  endTime: string;
+  hours: string;
+  status: WorkDayStatus;
 }
 
+// How an entry is drawn on its day by status; unpaid ones are struck through
+const STATUS_STYLES: Record<WorkDayStatus, { opacity: number; textDecoration?: string }> = {
+  planned: { opacity: 0.6 },
+  worked: { opacity: 1 },
+  cancelled: { opacity: 0.4, textDecoration: 'line-through' },
+  swapped: { opacity: 0.4, textDecoration: 'line-through' }
+};
+
 interface NewShiftValues {
   isCreating: boolean;
   label: string;
@@ -38,17 +58,15 @@ interface NewShiftValues {
   overtimeMultiplier: string;
   startTime: string;
   endTime: string;
+  // Set when an absence type is created instead of a shift
+  absence?: AbsenceCategory;
+  absencePay?: AbsencePay;
 }
 
 interface CalendarData {
   [key: string]: string;
 }
 
-interface NorwegianHoliday {
-  date: Date;
-  name: string;
-}
-
 interface CalendarDay {
   date: number;
   isCurrentMonth: boolean;
@@ -80,6 +98,36 @@ const translations = {
     selectShiftType: 'Select Shift Type',
     addNewShift: 'Add New Shift',
     eraseShifts: 'Erase Shifts',
+    stackShifts: 'Add Extra Shift',
+    actualTimes: 'Actual Times',
+    undo: 'Undo',
+    redo: 'Redo',
+    rotation: 'Rotation',
+    hoursPaid: 'Hours paid',
+    automatic: 'automatic',
+    resetToTemplate: 'Reset',
+    differsFromTemplate: 'Differs from the shift template',
+    status: 'Status',
+    statuses: {
+      planned: 'Planned',
+      worked: 'Worked',
+      cancelled: 'Cancelled',
+      swapped: 'Swapped away'
+    } as Record<WorkDayStatus, string>,
+    kind: 'Kind',
+    kindShift: 'Shift',
+    absenceCategories: {
+      vacation: 'Vacation',
+      selfCertified: 'Self-certified sick day',
+      sickLeave: 'Sick leave',
+      leave: 'Leave'
+    } as Record<AbsenceCategory, string>,
+    absencePay: 'Pay',
+    absencePays: {
+      unpaid: 'Unpaid',
+      average: 'Average day rate',
+      thirdParty: 'Paid by a third party'
+    } as Record<AbsencePay, string>,
     shiftName: 'Shift Name',
     hours: 'hours',
     overtime: 'Overtime %',
@@ -87,7 +135,10 @@ const translations = {
     startTime: 'Start Time',
     endTime: 'End Time',
     cancel: 'Cancel',
-    download: 'Download'
+    done: 'Done',
+    download: 'Download',
+    overDailyLimit: 'over the daily limit',
+    overWeeklyLimit: 'over the weekly limit'
   },
   no: {
     monthNames: [
@@ -98,6 +149,36 @@ const translations = {
     selectShiftType: 'Velg vakttype',
     addNewShift: 'Legg til ny vakt',
     eraseShifts: 'Slett vakter',
+    stackShifts: 'Legg til ekstra vakt',
+    actualTimes: 'Faktiske tider',
+    undo: 'Angre',
+    redo: 'Gjør om',
+    rotation: 'Turnus',
+    hoursPaid: 'Betalte timer',
+    automatic: 'automatisk',
+    resetToTemplate: 'Tilbakestill',
+    differsFromTemplate: 'Avviker fra vaktmalen',
+    status: 'Status',
+    statuses: {
+      planned: 'Planlagt',
+      worked: 'Jobbet',
+      cancelled: 'Avlyst',
+      swapped: 'Byttet bort'
+    } as Record<WorkDayStatus, string>,
+    kind: 'Type',
+    kindShift: 'Vakt',
+    absenceCategories: {
+      vacation: 'Ferie',
+      selfCertified: 'Egenmelding',
+      sickLeave: 'Sykemelding',
+      leave: 'Permisjon'
+    } as Record<AbsenceCategory, string>,
+    absencePay: 'Lønn',
+    absencePays: {
+      unpaid: 'Ulønnet',
+      average: 'Gjennomsnittlig dagslønn',
+      thirdParty: 'Betales av andre (f.eks. NAV)'
+    } as Record<AbsencePay, string>,
     shiftName: 'Vaktnavn',
     hours: 'timer',
     overtime: 'Overtid %',
@@ -105,51 +186,37 @@ const translations = {
     startTime: 'Start tid',
     endTime: 'Slutt tid',
     cancel: 'Avbryt',
-    download: 'Last ned'
+    done: 'Ferdig',
+    download: 'Last ned',
+    overDailyLimit: 'over dagsgrensen',
+    overWeeklyLimit: 'over ukegrensen'
   }
 };
 
-const getNorwegianHolidays = (year: number): NorwegianHoliday[] => {
-  const holidays: NorwegianHoliday[] = [
-    { date: new Date(year, 0, 1), name: 'Første nyttårsdag' },
-    { date: new Date(year, 3, 13), name: 'Palmesøndag' },
-    { date: new Date(year, 3, 17), name: 'Skjærtorsdag' },
-    { date: new Date(year, 3, 18), name: 'Langfredag' },
-    { date: new Date(year, 3, 20), name: 'Første påskedag' },
-    { date: new Date(year, 3, 21), name: 'Andre påskedag' },
-    { date: new Date(year, 4, 1), name: 'Arbeidernes dag' },
-    { date: new Date(year, 4, 8), name: 'Frigjøringsdagen' },
-    { date: new Date(year, 4, 17), name: 'Grunnlovsdag' },
-    { date: new Date(year, 4, 29), name: 'Kristi himmelfartsdag' },
-    { date: new Date(year, 5, 8), name: 'Første pinsedag' },
-    { date: new Date(year, 5, 9), name: 'Andre pinsedag' },
-    { date: new Date(year, 11, 25), name: 'Første juledag' },
-    { date: new Date(year, 11, 26), name: 'Andre juledag' }
-  ];
-  return holidays;
-};
-
-const isNorwegianHoliday = (date: Date, holidays: NorwegianHoliday[]): NorwegianHoliday | undefined => {
-  return holidays.find(holiday => 
-    holiday.date.getDate() === date.getDate() &&
-    holiday.date.getMonth() === date.getMonth()
-  );
-};
-
 const Calendar: React.FC<CalendarProps> = ({
   year,
   month,
   workedDays,
   onDayClick,
+  onWorkDayTimesChange,
+  onWorkDayStatusChange,
   onMonthChange,
   baseRate,
+  jobRates,
   onShiftHoursChange,
   onShiftTypesChange,
   language,
   onMonthlyDownload,
   currencyConfig,
   formatAmount,
-  shiftTypes
+  shiftTypes,
+  monthPay,
+  holidays,
+  premiumWindows,
+  onUndo,
+  onRedo,
+  onRotationOpen,
+  previewDays
 }) => {
   const [selectedShiftType, setSelectedShiftType] = useState<string>('day');
   const [editingShift, setEditingShift] = useState<string | null>(null);
@@ -160,6 +227,7 @@ const Calendar: React.FC<CalendarProps> = ({
     overtimeMultiplier: string;
     startTime: string;
     endTime: string;
+    absencePay?: AbsencePay;
   }>({
     hours: '',
     label: '',
@@ -180,7 +248,10 @@ const Calendar: React.FC<CalendarProps> = ({
   });
 
   const [isErasing, setIsErasing] = useState(false);
-  const [norwegianHolidays, setNorwegianHolidays] = useState<NorwegianHoliday[]>([]);
+  const [isStacking, setIsStacking] = useState(false);
+  const [isEditingTimes, setIsEditingTimes] = useState(false);
+  const [timesDay, setTimesDay] = useState<number | null>(null);
+  const [timesDraft, setTimesDraft] = useState<ActualTimesDraft[]>([]);
 
   const t = translations[language];
 
@@ -192,10 +263,6 @@ const Calendar: React.FC<CalendarProps> = ({
   // const [shiftTypes, setShiftTypes] = useState<ShiftConfig[]>(...);
   const setShiftTypes = onShiftTypesChange;
 
-  useEffect(() => {
-    setNorwegianHolidays(getNorwegianHolidays(year));
-  }, [year]);
-
   const handleEditStart = (shiftType: string) => {
     const shift = shiftTypes.find(s => s.type === shiftType);
     if (shift) {
@@ -205,7 +272,8 @@ const Calendar: React.FC<CalendarProps> = ({
         color: shift.color,
         overtimeMultiplier: shift.overtimeMultiplier.toString(),
         startTime: shift.startTime || '',
-        endTime: shift.endTime || ''
+        endTime: shift.endTime || '',
+        absencePay: shift.absence?.pay
       });
       setEditingShift(shiftType);
     }
@@ -215,7 +283,18 @@ const Calendar: React.FC<CalendarProps> = ({
     if (editingShift) {
       const hours = parseFloat(editValues.hours);
       const overtimeMultiplier = parseFloat(editValues.overtimeMultiplier);
-      if (!isNaN(hours) && hours > 0 && !isNaN(overtimeMultiplier) && overtimeMultiplier >= 0) {
+      const absence = shiftTypes.find(s => s.type === editingShift)?.absence;
+      if (absence) {
+        // Absence types have no hours or times, only their pay
+        onShiftTypesChange(shiftTypes.map(shift =>
+          shift.type === editingShift ? {
+            ...shift,
+            label: editValues.label,
+            color: editValues.color,
+            absence: { ...absence, pay: editValues.absencePay || absence.pay }
+          } : shift
+        ));
+      } else if (!isNaN(hours) && hours > 0 && !isNaN(overtimeMultiplier) && overtimeMultiplier >= 0) {
         const newShiftTypes = shiftTypes.map(shift => 
           shift.type === editingShift ? {
             ...shift,
@@ -264,7 +343,17 @@ const Calendar: React.FC<CalendarProps> = ({
   const handleSaveNewShift = () => {
     const hours = parseFloat(newShift.hours);
     const overtimeMultiplier = parseFloat(newShift.overtimeMultiplier);
-    if (newShift.label && !isNaN(hours) && hours > 0 && !isNaN(overtimeMultiplier) && overtimeMultiplier >= 0) {
+    if (newShift.label && newShift.absence) {
+      onShiftTypesChange([...shiftTypes, {
+        type: newShift.label.toLowerCase().replace(/\s+/g, '_'),
+        label: newShift.label,
+        hours: 0,
+        color: newShift.color,
+        overtimeMultiplier: 0,
+        labelEn: '',
+        absence: { category: newShift.absence, pay: newShift.absencePay || 'unpaid' }
+      }]);
+    } else if (newShift.label && !isNaN(hours) && hours > 0 && !isNaN(overtimeMultiplier) && overtimeMultiplier >= 0) {
       const newShiftType: ShiftConfig = {
         type: newShift.label.toLowerCase().replace(/\s+/g, '_'),
         label: newShift.label,
@@ -306,8 +395,9 @@ const Calendar: React.FC<CalendarProps> = ({
   const handleDeleteShift = (shiftType: string) => {
     const newShiftTypes = shiftTypes.filter(shift => shift.type !== shiftType);
     setShiftTypes(newShiftTypes);
-    // Notify parent about shift types update
+    // Notify parent about shift types update; types still used by worked days are archived there
     onShiftTypesChange(newShiftTypes);
+    setSelectedShiftType('');
     setIsErasing(true);
   };
 
@@ -352,7 +442,7 @@ const Calendar: React.FC<CalendarProps> = ({
 
   const getDayStyles = (day: { date: number; isCurrentMonth: boolean }): SxProps<Theme> => {
     const currentDate = new Date(year, month, day.date);
-    const holiday = day.isCurrentMonth ? isNorwegianHoliday(currentDate, norwegianHolidays) : undefined;
+    const holiday = day.isCurrentMonth ? holidays.getHoliday(currentDate) : undefined;
     const baseStyles: SxProps<Theme> = {
       height: '130px',
       display: 'flex',
@@ -366,9 +456,9 @@ const Calendar: React.FC<CalendarProps> = ({
       borderRadius: holiday ? '8px' : undefined,
       background: holiday ? 'linear-gradient(135deg, rgba(255, 0, 0, 0.1) 0%, rgba(255, 0, 0, 0.2) 100%)' : undefined,
       '&:hover': day.isCurrentMonth ? {
-        bgcolor: isErasing && workedDays[day.date] ? 'rgba(255, 82, 82, 0.1)' : 'rgba(255, 255, 255, 0.1)',
+        bgcolor: isErasing && workedDays[day.date]?.length ? 'rgba(255, 82, 82, 0.1)' : 'rgba(255, 255, 255, 0.1)',
         '& .eraser-hover': {
-          opacity: isErasing && workedDays[day.date] ? 1 : 0
+          opacity: isErasing && workedDays[day.date]?.length ? 1 : 0
         }
       } : {}
     };
@@ -405,48 +495,10 @@ const Calendar: React.FC<CalendarProps> = ({
     weeks.push(calendarDays.slice(i, i + 7));
   }
 
-  const calculateShiftEarnings = (shiftType: string): number => {
-    const shift = shiftTypes.find(s => s.type === shiftType);
-    if (!shift) return 0;
-
-    const basePayForShift = baseRate * shift.hours;
-    // Only apply overtime if multiplier is greater than 0
-    const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-    
-    return basePayForShift * (1 + overtimeRate);
-  };
-
-  const calculateMonthlyEarnings = (year: number, month: number): number => {
-    let total = 0;
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-
-    for (let day = 1; day <= daysInMonth; day++) {
-      const shiftType = workedDays[day];
-      if (shiftType) {
-        total += calculateShiftEarnings(shiftType);
-      }
-    }
-
-    return total;
-  };
-
-  const calculateYearlyEarnings = (year: number): number => {
-    let total = 0;
-    for (let month = 0; month < 12; month++) {
-      total += calculateMonthlyEarnings(year, month);
-    }
-    return total;
-  };
-
   const formatHours = (hours: number, language: 'en' | 'no'): string => {
     return `${hours} ${language === 'no' ? 'timer' : 'hours'}`;
   };
 
-  const calculateShiftPay = (hours: number, overtimeMultiplier: number): number => {
-    const basePayForShift = baseRate * hours;
-    return basePayForShift * (1 + overtimeMultiplier / 100);
-  };
-
   const getAchievementEmojis = (dailyEarnings: number, baseRate: number): string => {
     if (dailyEarnings >= baseRate * 25) return '🎆🎉';
     if (dailyEarnings >= baseRate * 20) return '💎🏆';
@@ -455,13 +507,75 @@ const Calendar: React.FC<CalendarProps> = ({
     return '';
   };
 
-  const calculateDailyEarnings = (shiftType: string, baseRate: number): number => {
-    const shift = shiftTypes.find(s => s.type === shiftType);
-    if (!shift) return 0;
-    const basePayForShift = baseRate * shift.hours;
-    return basePayForShift * (1 + shift.overtimeMultiplier / 100);
+  const getDailyEarnings = (day: number): number =>
+    monthPay.days
+      .filter(d => d.day === day)
+      .reduce((sum, d) => sum + d.earnings, 0);
+
+  // Hours of the day reclassified as overtime by the daily or weekly limit,
+  // summed over all of the day's entries
+  const getStatutoryOvertime = (day: number) =>
+    monthPay.days
+      .filter(d => d.day === day && d.statutoryOvertime)
+      .reduce<{ dailyHours: number; weeklyHours: number; hours: number } | undefined>((acc, d) => ({
+        dailyHours: (acc?.dailyHours || 0) + d.statutoryOvertime!.dailyHours,
+        weeklyHours: (acc?.weeklyHours || 0) + d.statutoryOvertime!.weeklyHours,
+        hours: (acc?.hours || 0) + d.statutoryOvertime!.hours
+      }), undefined);
+
+  const renderOvertimeBadge = (day: number) => {
+    const overtime = getStatutoryOvertime(day);
+    if (!overtime) return null;
+    const reasons = [];
+    if (overtime.dailyHours > 0) reasons.push(`${formatHours(overtime.dailyHours, language)} ${t.overDailyLimit}`);
+    if (overtime.weeklyHours > 0) reasons.push(`${formatHours(overtime.weeklyHours, language)} ${t.overWeeklyLimit}`);
+    return (
+      <Typography
+        variant="caption"
+        title={reasons.join(', ')}
+        sx={{
+          fontSize: '0.95rem',
+          lineHeight: 1.2,
+          color: '#ff5252',
+          fontWeight: 600
+        }}
+      >
+        +{formatHours(overtime.hours, language)} OT
+      </Typography>
+    );
   };
 
+  // Hours and pay per premium window for the given clock times
+  const renderPremiumBreakdown = (startTime?: string, endTime?: string) => {
+    const premiums = calculatePremiums(startTime, endTime, premiumWindows);
+    if (premiums.length === 0) return null;
+    return (
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+        {premiums.map(premium => (
+          <Typography key={premium.windowId} sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1rem' }}>
+            {premium.name}: {formatHours(Math.round(premium.hours * 100) / 100, language)} (+{formatAmount(premium.amount)})
+          </Typography>
+        ))}
+      </Box>
+    );
+  };
+
+  const renderAbsencePaySelect = (value: AbsencePay, onChange: (pay: AbsencePay) => void) => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+      <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.absencePay}</Typography>
+      <Select
+        size="small"
+        value={value}
+        onChange={(e) => onChange(e.target.value as AbsencePay)}
+        sx={{ bgcolor: '#232323', color: '#fff', fontSize: '1.2rem', fontWeight: 600 }}
+      >
+        {ABSENCE_PAYS.map(pay => (
+          <MenuItem key={pay} value={pay}>{t.absencePays[pay]}</MenuItem>
+        ))}
+      </Select>
+    </Box>
+  );
+
   const renderShiftEditor = (shift: ShiftConfig) => {
     if (editingShift === shift.type) {
       return (
@@ -492,57 +606,64 @@ const Calendar: React.FC<CalendarProps> = ({
               sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }
             }}
           />
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <TextField
-              label={t.hours}
-              value={editValues.hours}
-              onChange={(e) => setEditValues(prev => ({ ...prev, hours: e.target.value }))}
-              type="number"
-              size="small"
-              InputProps={{
-                endAdornment: <InputAdornment position="end">{t.hours}</InputAdornment>,
-                sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
-              }}
-              InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-            />
-            <TextField
-              label={t.overtime}
-              value={editValues.overtimeMultiplier}
-              onChange={(e) => setEditValues(prev => ({ ...prev, overtimeMultiplier: e.target.value }))}
-              type="number"
-              size="small"
-              inputProps={{ min: "0" }}
-              InputProps={{
-                endAdornment: <InputAdornment position="end">%</InputAdornment>,
-                sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
-              }}
-              InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-            />
-          </Box>
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
-              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.startTime}</Typography>
-              <TextField
-                value={editValues.startTime}
-                onChange={(e) => setEditValues(prev => ({ ...prev, startTime: e.target.value }))}
-                type="time"
-                size="small"
-                InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
-                InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-              />
-            </Box>
-            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
-              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.endTime}</Typography>
-              <TextField
-                value={editValues.endTime}
-                onChange={(e) => setEditValues(prev => ({ ...prev, endTime: e.target.value }))}
-                type="time"
-                size="small"
-                InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
-                InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-              />
-            </Box>
-          </Box>
+          {shift.absence ? (
+            renderAbsencePaySelect(editValues.absencePay || shift.absence.pay, pay => setEditValues(prev => ({ ...prev, absencePay: pay })))
+          ) : (
+            <>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  label={t.hours}
+                  value={editValues.hours}
+                  onChange={(e) => setEditValues(prev => ({ ...prev, hours: e.target.value }))}
+                  type="number"
+                  size="small"
+                  InputProps={{
+                    endAdornment: <InputAdornment position="end">{t.hours}</InputAdornment>,
+                    sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
+                  }}
+                  InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                />
+                <TextField
+                  label={t.overtime}
+                  value={editValues.overtimeMultiplier}
+                  onChange={(e) => setEditValues(prev => ({ ...prev, overtimeMultiplier: e.target.value }))}
+                  type="number"
+                  size="small"
+                  inputProps={{ min: "0" }}
+                  InputProps={{
+                    endAdornment: <InputAdornment position="end">%</InputAdornment>,
+                    sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
+                  }}
+                  InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                />
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.startTime}</Typography>
+                  <TextField
+                    value={editValues.startTime}
+                    onChange={(e) => setEditValues(prev => ({ ...prev, startTime: e.target.value }))}
+                    type="time"
+                    size="small"
+                    InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                    InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.endTime}</Typography>
+                  <TextField
+                    value={editValues.endTime}
+                    onChange={(e) => setEditValues(prev => ({ ...prev, endTime: e.target.value }))}
+                    type="time"
+                    size="small"
+                    InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                    InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                  />
+                </Box>
+              </Box>
+              {renderPremiumBreakdown(editValues.startTime, editValues.endTime)}
+            </>
+          )}
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
             <Typography sx={{ color: '#fff', fontSize: '1.2rem', fontWeight: 600 }}>{t.color}</Typography>
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
@@ -600,17 +721,29 @@ const Calendar: React.FC<CalendarProps> = ({
 
     return (
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-        <Typography sx={{ color: '#fff', minWidth: '150px', fontSize: '1.25rem' }}>
-          {formatHours(shift.hours, language)} {formatShiftAmount(calculateShiftPay(shift.hours, shift.overtimeMultiplier))}
-          <Typography component="span" sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.1em', ml: 1 }}>
-            {shift.overtimeMultiplier > 0 ? `${t.overtime.replace('%', '')}: ${shift.overtimeMultiplier}%` : 'No OT'}
-          </Typography>
-          {shift.startTime && shift.endTime && (
+        {shift.absence ? (
+          <Typography sx={{ color: '#fff', minWidth: '150px', fontSize: '1.25rem' }}>
+            {t.absenceCategories[shift.absence.category]}
             <Typography component="span" sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.1em', ml: 1 }}>
-              ({shift.startTime}-{shift.endTime})
+              {t.absencePays[shift.absence.pay]}
             </Typography>
-          )}
-        </Typography>
+          </Typography>
+        ) : (
+          <Box>
+            <Typography sx={{ color: '#fff', minWidth: '150px', fontSize: '1.25rem' }}>
+              {formatHours(shift.hours, language)} {formatShiftAmount(calculateShiftPay(shift, jobRates?.[getJobId(shift)] ?? baseRate, premiumWindows).earnings)}
+              <Typography component="span" sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.1em', ml: 1 }}>
+                {shift.overtimeMultiplier > 0 ? `${t.overtime.replace('%', '')}: ${shift.overtimeMultiplier}%` : 'No OT'}
+              </Typography>
+              {shift.startTime && shift.endTime && (
+                <Typography component="span" sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.1em', ml: 1 }}>
+                  ({shift.startTime}-{shift.endTime})
+                </Typography>
+              )}
+            </Typography>
+            {renderPremiumBreakdown(shift.startTime, shift.endTime)}
+          </Box>
+        )}
         <IconButton 
           size="large" 
           onClick={() => handleEditStart(shift.type)}
@@ -622,61 +755,76 @@ const Calendar: React.FC<CalendarProps> = ({
     );
   };
 
-  const handleDayClick = (date: string, isCurrentMonth: boolean) => {
-    if (!isCurrentMonth) return;
-    
-    if (isErasing) {
-      onDayClick(parseInt(date), '');
-    } else if (selectedShiftType) {
-      onDayClick(parseInt(date), selectedShiftType);
-    }
+  // Blank fields fall back to the shift template; blank hours are derived
+  // from the times
+  const openTimesDialog = (day: number) => {
+    setTimesDraft(workedDays[day].map(wd => {
+      const shift = shiftTypes.find(s => s.type === wd.shiftType);
+      return {
+        startTime: wd.startTime || shift?.startTime || '',
+        endTime: wd.endTime || shift?.endTime || '',
+        hours: wd.hours !== undefined ? wd.hours.toString() : '',
+        status: getWorkDayStatus(year, wd)
+      };
+    }));
+    setTimesDay(day);
   };
 
-  const handleDownloadCSV = () => {
-    // Create CSV header
-    const headers = ['Date', 'Day Type', 'Shift Type', 'Work Time', 'Paid Hours', 'Total Earnings'];
-    const csvRows = [headers];
-
-    // Get all days in the month
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    
-    // Generate data for each day
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month, day);
-      const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'short' });
-      const shiftType = workedDays[day];
-      
-      if (shiftType) {
-        const shift = shiftTypes.find(s => s.type === shiftType);
-        if (shift) {
-          const earnings = calculateShiftEarnings(shiftType);
-          const formattedDate = `${String(day).padStart(2, '0')}.${String(month + 1).padStart(2, '0')}.${year}`;
-          const workTime = `${shift.startTime}-${shift.endTime}`;
-          
-          csvRows.push([
-            formattedDate,
-            dayOfWeek,
-            shift.label,
-            workTime,
-            shift.hours.toString(),
-            earnings.toFixed(2)
-          ]);
-        }
+  const handleTimesDone = () => {
+    if (timesDay === null) return;
+    workedDays[timesDay].forEach((wd, index) => {
+      const shift = shiftTypes.find(s => s.type === wd.shiftType);
+      const draft = timesDraft[index];
+      const hours = parseFloat(draft.hours);
+      const times: WorkDayTimes = {
+        startTime: draft.startTime && draft.startTime !== shift?.startTime ? draft.startTime : undefined,
+        endTime: draft.endTime && draft.endTime !== shift?.endTime ? draft.endTime : undefined,
+        hours: !isNaN(hours) && hours >= 0 ? hours : undefined
+      };
+      // Only changed entries are saved, so closing the dialog adds no undo step
+      if (times.startTime !== wd.startTime || times.endTime !== wd.endTime || times.hours !== wd.hours) {
+        onWorkDayTimesChange(timesDay, index, times);
       }
-    }
+      // An unchanged status stays implicit, so a planned entry still turns worked once its day has passed
+      if (draft.status !== getWorkDayStatus(year, wd) && typeof onWorkDayStatusChange === 'function') {
+        onWorkDayStatusChange(timesDay, index, draft.status);
+      }
+    });
+    setTimesDay(null);
+  };
 
-    // Convert to CSV string
-    const csvContent = csvRows.map(row => row.join('|')).join('\n');
+  const updateTimesDraft = (index: number, values: Partial<ActualTimesDraft>) => {
+    setTimesDraft(prev => prev.map((draft, i) => i === index ? { ...draft, ...values } : draft));
+  };
+
+  // Marks an entry whose times or hours differ from its shift template
+  const renderActualTimes = (wd: WorkDay) => {
+    const shift = shiftTypes.find(s => s.type === wd.shiftType);
+    if (!shift || !hasWorkDayOverride(shift, wd)) return null;
+    const actual = resolveWorkDayShift(shift, wd);
+    const times = actual.startTime && actual.endTime ? `${actual.startTime}-${actual.endTime}, ` : '';
+    return (
+      <Box
+        component="span"
+        title={`${t.differsFromTemplate}: ${times}${actual.hours} ${t.hours}`}
+        sx={{ ml: 0.5, color: '#ffd740' }}
+      >
+        ⏱
+      </Box>
+    );
+  };
+
+  const handleDayClick = (date: string, isCurrentMonth: boolean, event: React.MouseEvent) => {
+    if (!isCurrentMonth) return;
     
-    // Create and trigger download
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `earnings_${monthNames[month]}_${year}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (isEditingTimes) {
+      if (workedDays[parseInt(date)]?.length) openTimesDialog(parseInt(date));
+    } else if (isErasing) {
+      onDayClick(parseInt(date), '');
+    } else if (selectedShiftType) {
+      // Shift-click adds the shift alongside the day's existing ones
+      onDayClick(parseInt(date), selectedShiftType, isStacking || event.shiftKey);
+    }
   };
 
   const handleMonthChange = (direction: 'prev' | 'next') => {
@@ -803,7 +951,7 @@ const Calendar: React.FC<CalendarProps> = ({
                 {week.map((day, dayIndex) => (
                   <Grid item xs key={dayIndex}>
                 <Box
-                      onClick={() => handleDayClick(day.date.toString(), day.isCurrentMonth)}
+                      onClick={(event) => handleDayClick(day.date.toString(), day.isCurrentMonth, event)}
                       sx={getDayStyles(day)}
                     >
                       <Box sx={{ 
@@ -818,14 +966,14 @@ const Calendar: React.FC<CalendarProps> = ({
                             ...getDateStyles(
                               day.isCurrentMonth, 
                               isToday(day.date),
-                              !!isNorwegianHoliday(new Date(year, month, day.date), norwegianHolidays)
+                              !!holidays.getHoliday(new Date(year, month, day.date))
                             ),
                             flexShrink: 0,
                             fontSize: '1.5rem'
                           }}>
                             {day.date}
                           </Typography>
-                          {day.isCurrentMonth && isNorwegianHoliday(new Date(year, month, day.date), norwegianHolidays) && (
+                          {day.isCurrentMonth && holidays.getHoliday(new Date(year, month, day.date)) && (
                             <Typography
                               variant="caption"
                               sx={{
@@ -836,11 +984,11 @@ const Calendar: React.FC<CalendarProps> = ({
                                 fontWeight: 600
                               }}
                             >
-                              {isNorwegianHoliday(new Date(year, month, day.date), norwegianHolidays)?.name}
+                              {holidays.getHoliday(new Date(year, month, day.date))?.name}
                             </Typography>
                           )}
                         </Box>
-                        {day.isCurrentMonth && workedDays[day.date] && (
+                        {day.isCurrentMonth && workedDays[day.date]?.length > 0 && (
                           <Typography
                             sx={{
                               fontSize: '1.3rem',
@@ -849,43 +997,83 @@ const Calendar: React.FC<CalendarProps> = ({
                               letterSpacing: '-1px'
                             }}
                           >
-                            {getAchievementEmojis(calculateDailyEarnings(workedDays[day.date], baseRate), baseRate)}
+                            {getAchievementEmojis(getDailyEarnings(day.date), baseRate)}
                           </Typography>
                         )}
                       </Box>
-                      {day.isCurrentMonth && workedDays[day.date] && (
-                        <>
+                      {day.isCurrentMonth && workedDays[day.date]?.length > 0 && (
+                        <Box
+                          sx={{
+                            position: 'absolute',
+                            bottom: '8px',
+                            left: '8px',
+                            right: '8px',
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: '2px'
+                          }}
+                        >
+                          {renderOvertimeBadge(day.date)}
+                          {workedDays[day.date].map((wd, index) => (
+                            <Typography
+                              key={index}
+                              variant="caption"
+                              title={t.statuses[getWorkDayStatus(year, wd)]}
+                              sx={{
+                                fontSize: workedDays[day.date].length > 1 ? '0.9rem' : '1.05rem',
+                                lineHeight: 1.2,
+                                color: shiftTypes.find(s => s.type === wd.shiftType)?.color || '#00e676',
+                                whiteSpace: 'nowrap',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                fontWeight: 600,
+                                ...STATUS_STYLES[getWorkDayStatus(year, wd)]
+                              }}
+                            >
+                              {shiftTypes.find(s => s.type === wd.shiftType)?.label}
+                              {renderActualTimes(wd)}
+                            </Typography>
+                          ))}
+                          {workedDays[day.date].map((wd, index) => (
+                            <Box
+                              key={index}
+                              sx={{
+                                height: '4px',
+                                borderRadius: '2px',
+                                backgroundColor: shiftTypes.find(s => s.type === wd.shiftType)?.color || '#00e676',
+                                opacity: STATUS_STYLES[getWorkDayStatus(year, wd)].opacity
+                              }}
+                            />
+                          ))}
+                        </Box>
+                      )}
+                      {day.isCurrentMonth && previewDays?.[day.date] && (
+                        <Box
+                          sx={{
+                            position: 'absolute',
+                            inset: '2px',
+                            border: `2px dashed ${shiftTypes.find(s => s.type === previewDays[day.date])?.color || '#00e676'}`,
+                            borderRadius: '8px',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            pointerEvents: 'none'
+                          }}
+                        >
                           <Typography
                             variant="caption"
                             sx={{
-                              position: 'absolute',
-                              bottom: '16px',
-                              left: '8px',
-                              fontSize: '1.05rem',
-                              color: shiftTypes.find(s => s.type === workedDays[day.date])?.color || '#00e676',
-                              whiteSpace: 'nowrap',
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              maxWidth: 'calc(100% - 16px)',
-                              fontWeight: 600
+                              fontSize: '0.95rem',
+                              fontWeight: 600,
+                              opacity: 0.8,
+                              color: shiftTypes.find(s => s.type === previewDays[day.date])?.color || '#00e676'
                             }}
                           >
-                            {shiftTypes.find(s => s.type === workedDays[day.date])?.label}
+                            {shiftTypes.find(s => s.type === previewDays[day.date])?.label}
                           </Typography>
-                          <Box
-                            sx={{
-                              position: 'absolute',
-                              bottom: '8px',
-                              left: '8px',
-                              right: '8px',
-                              height: '4px',
-                              borderRadius: '2px',
-                              backgroundColor: shiftTypes.find(s => s.type === workedDays[day.date])?.color || '#00e676'
-                            }}
-                          />
-                        </>
+                        </Box>
                       )}
-                      {isErasing && day.isCurrentMonth && workedDays[day.date] && (
+                      {isErasing && day.isCurrentMonth && workedDays[day.date]?.length > 0 && (
                         <BackspaceIcon 
                           className="eraser-hover"
                           sx={{ 
@@ -920,12 +1108,13 @@ const Calendar: React.FC<CalendarProps> = ({
         <CardContent sx={{ p: 3 }}>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 3 }}>
             <Typography variant="h6" sx={{ color: '#fff', fontSize: '2rem', fontWeight: 700 }}>{t.selectShiftType}</Typography>
-            {shiftTypes.map((shift) => (
+            {shiftTypes.filter(shift => !shift.archived).map((shift) => (
               <Box key={shift.type} sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
                 <Button
                   onClick={() => {
                     setSelectedShiftType(shift.type);
                     setIsErasing(false);
+                    setIsEditingTimes(false);
                   }}
                   variant={selectedShiftType === shift.type ? 'contained' : 'outlined'}
                   sx={{
@@ -988,57 +1177,78 @@ const Calendar: React.FC<CalendarProps> = ({
                       sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }
                     }}
                   />
-                  <Box sx={{ display: 'flex', gap: 2 }}>
-                    <TextField
-                      label={t.hours}
-                      value={newShift.hours}
-                      onChange={(e) => setNewShift(prev => ({ ...prev, hours: e.target.value }))}
-                      type="number"
-                      size="small"
-                      InputProps={{
-                        endAdornment: <InputAdornment position="end">{t.hours}</InputAdornment>,
-                        sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
-                      }}
-                      InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-                    />
-                    <TextField
-                      label={t.overtime}
-                      value={newShift.overtimeMultiplier}
-                      onChange={(e) => setNewShift(prev => ({ ...prev, overtimeMultiplier: e.target.value }))}
-                      type="number"
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                    <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.kind}</Typography>
+                    <Select
                       size="small"
-                      inputProps={{ min: "0" }}
-                      InputProps={{
-                        endAdornment: <InputAdornment position="end">%</InputAdornment>,
-                        sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
-                      }}
-                      InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-                    />
-                  </Box>
-                  <Box sx={{ display: 'flex', gap: 2 }}>
-                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
-                      <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.startTime}</Typography>
-                      <TextField
-                        value={newShift.startTime}
-                        onChange={(e) => setNewShift(prev => ({ ...prev, startTime: e.target.value }))}
-                        type="time"
-                        size="small"
-                        InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
-                        InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-                      />
-                    </Box>
-                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
-                      <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.endTime}</Typography>
-                      <TextField
-                        value={newShift.endTime}
-                        onChange={(e) => setNewShift(prev => ({ ...prev, endTime: e.target.value }))}
-                        type="time"
-                        size="small"
-                        InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
-                        InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
-                      />
-                    </Box>
+                      value={newShift.absence || ''}
+                      displayEmpty
+                      onChange={(e) => setNewShift(prev => ({ ...prev, absence: (e.target.value || undefined) as AbsenceCategory | undefined }))}
+                      sx={{ bgcolor: '#232323', color: '#fff', fontSize: '1.2rem', fontWeight: 600 }}
+                    >
+                      <MenuItem value="">{t.kindShift}</MenuItem>
+                      {ABSENCE_CATEGORIES.map(category => (
+                        <MenuItem key={category} value={category}>{t.absenceCategories[category]}</MenuItem>
+                      ))}
+                    </Select>
                   </Box>
+                  {newShift.absence ? (
+                    renderAbsencePaySelect(newShift.absencePay || 'unpaid', pay => setNewShift(prev => ({ ...prev, absencePay: pay })))
+                  ) : (
+                    <>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                          label={t.hours}
+                          value={newShift.hours}
+                          onChange={(e) => setNewShift(prev => ({ ...prev, hours: e.target.value }))}
+                          type="number"
+                          size="small"
+                          InputProps={{
+                            endAdornment: <InputAdornment position="end">{t.hours}</InputAdornment>,
+                            sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
+                          }}
+                          InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                        />
+                        <TextField
+                          label={t.overtime}
+                          value={newShift.overtimeMultiplier}
+                          onChange={(e) => setNewShift(prev => ({ ...prev, overtimeMultiplier: e.target.value }))}
+                          type="number"
+                          size="small"
+                          inputProps={{ min: "0" }}
+                          InputProps={{
+                            endAdornment: <InputAdornment position="end">%</InputAdornment>,
+                            sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } }
+                          }}
+                          InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                        />
+                      </Box>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.startTime}</Typography>
+                          <TextField
+                            value={newShift.startTime}
+                            onChange={(e) => setNewShift(prev => ({ ...prev, startTime: e.target.value }))}
+                            type="time"
+                            size="small"
+                            InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                            InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                          />
+                        </Box>
+                        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.endTime}</Typography>
+                          <TextField
+                            value={newShift.endTime}
+                            onChange={(e) => setNewShift(prev => ({ ...prev, endTime: e.target.value }))}
+                            type="time"
+                            size="small"
+                            InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                            InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 } }}
+                          />
+                        </Box>
+                      </Box>
+                    </>
+                  )}
                   <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
                     <Typography sx={{ color: '#fff' }}>{t.color}</Typography>
                     <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
@@ -1103,6 +1313,8 @@ const Calendar: React.FC<CalendarProps> = ({
                   <Button
                     onClick={() => {
                       setSelectedShiftType('');
+                      setIsStacking(false);
+                      setIsEditingTimes(false);
                       setIsErasing(!isErasing);
                     }}
                     variant={isErasing ? 'contained' : 'outlined'}
@@ -1123,12 +1335,226 @@ const Calendar: React.FC<CalendarProps> = ({
                   >
                     {t.eraseShifts}
                   </Button>
+                  <Button
+                    onClick={() => {
+                      setIsErasing(false);
+                      setIsEditingTimes(false);
+                      setIsStacking(!isStacking);
+                    }}
+                    variant={isStacking ? 'contained' : 'outlined'}
+                    startIcon={<LayersIcon sx={{ fontSize: '2rem' }} />}
+                    sx={{
+                      color: isStacking ? '#000' : 'rgba(255, 255, 255, 0.7)',
+                      borderColor: 'rgba(255, 255, 255, 0.23)',
+                      bgcolor: isStacking ? '#00e676' : 'transparent',
+                      fontSize: '1.2rem',
+                      fontWeight: 600,
+                      px: 3,
+                      height: '56px',
+                      '&:hover': {
+                        bgcolor: isStacking ? '#00e676' : 'rgba(255, 255, 255, 0.05)',
+                        borderColor: isStacking ? '#00e676' : 'rgba(255, 255, 255, 0.5)',
+                      }
+                    }}
+                  >
+                    {t.stackShifts}
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setIsErasing(false);
+                      setIsStacking(false);
+                      setIsEditingTimes(!isEditingTimes);
+                    }}
+                    variant={isEditingTimes ? 'contained' : 'outlined'}
+                    startIcon={<AccessTimeIcon sx={{ fontSize: '2rem' }} />}
+                    sx={{
+                      color: isEditingTimes ? '#000' : 'rgba(255, 255, 255, 0.7)',
+                      borderColor: 'rgba(255, 255, 255, 0.23)',
+                      bgcolor: isEditingTimes ? '#ffd740' : 'transparent',
+                      fontSize: '1.2rem',
+                      fontWeight: 600,
+                      px: 3,
+                      height: '56px',
+                      '&:hover': {
+                        bgcolor: isEditingTimes ? '#ffd740' : 'rgba(255, 255, 255, 0.05)',
+                        borderColor: isEditingTimes ? '#ffd740' : 'rgba(255, 255, 255, 0.5)',
+                      }
+                    }}
+                  >
+                    {t.actualTimes}
+                  </Button>
+                  {typeof onRotationOpen === 'function' && (
+                    <Button
+                      onClick={onRotationOpen}
+                      variant="outlined"
+                      startIcon={<RepeatIcon sx={{ fontSize: '2rem' }} />}
+                      sx={{
+                        color: 'rgba(255, 255, 255, 0.7)',
+                        borderColor: 'rgba(255, 255, 255, 0.23)',
+                        fontSize: '1.2rem',
+                        fontWeight: 600,
+                        px: 3,
+                        height: '56px',
+                        '&:hover': {
+                          bgcolor: 'rgba(255, 255, 255, 0.05)',
+                          borderColor: 'rgba(255, 255, 255, 0.5)',
+                        }
+                      }}
+                    >
+                      {t.rotation}
+                    </Button>
+                  )}
+                  <IconButton
+                    size="large"
+                    title={`${t.undo} (Ctrl+Z)`}
+                    onClick={() => typeof onUndo === 'function' && onUndo()}
+                    disabled={typeof onUndo !== 'function'}
+                    sx={{ color: 'rgba(255, 255, 255, 0.7)', '&.Mui-disabled': { color: 'rgba(255, 255, 255, 0.2)' } }}
+                  >
+                    <UndoIcon sx={{ fontSize: '2rem' }} />
+                  </IconButton>
+                  <IconButton
+                    size="large"
+                    title={`${t.redo} (Ctrl+Shift+Z)`}
+                    onClick={() => typeof onRedo === 'function' && onRedo()}
+                    disabled={typeof onRedo !== 'function'}
+                    sx={{ color: 'rgba(255, 255, 255, 0.7)', '&.Mui-disabled': { color: 'rgba(255, 255, 255, 0.2)' } }}
+                  >
+                    <RedoIcon sx={{ fontSize: '2rem' }} />
+                  </IconButton>
                 </>
               )}
             </Box>
         </Box>
       </CardContent>
     </Card>
+
+    <Dialog
+      open={timesDay !== null}
+      onClose={() => setTimesDay(null)}
+      PaperProps={{
+        sx: {
+          bgcolor: '#1e1e1e',
+          color: '#fff',
+          minWidth: 300,
+        },
+      }}
+    >
+      <DialogTitle sx={{ color: '#00e676', fontSize: '2rem', fontWeight: 700, textAlign: 'center' }}>
+        {t.actualTimes}{timesDay !== null && ` – ${timesDay}. ${monthNames[month]}`}
+      </DialogTitle>
+      <DialogContent>
+        {timesDay !== null && workedDays[timesDay]?.map((wd, index) => {
+          const shift = shiftTypes.find(s => s.type === wd.shiftType);
+          const draft = timesDraft[index];
+          if (!shift || !draft) return null;
+          const actual = resolveWorkDayShift(shift, {
+            startTime: draft.startTime || undefined,
+            endTime: draft.endTime || undefined,
+            hours: draft.hours !== '' && !isNaN(parseFloat(draft.hours)) ? parseFloat(draft.hours) : undefined
+          });
+          return (
+            <Box key={index} sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography sx={{ color: shift.color, fontSize: '1.4rem', fontWeight: 700 }}>
+                  {shift.label}
+                </Typography>
+                <Button
+                  onClick={() => updateTimesDraft(index, {
+                    startTime: shift.startTime || '',
+                    endTime: shift.endTime || '',
+                    hours: ''
+                  })}
+                  sx={{ color: 'rgba(255, 255, 255, 0.7)' }}
+                >
+                  {t.resetToTemplate}
+                </Button>
+              </Box>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.status}</Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {WORK_DAY_STATUSES.map(status => (
+                    <Button
+                      key={status}
+                      size="small"
+                      onClick={() => updateTimesDraft(index, { status })}
+                      variant={draft.status === status ? 'contained' : 'outlined'}
+                      sx={{
+                        color: draft.status === status ? '#000' : 'rgba(255, 255, 255, 0.7)',
+                        bgcolor: draft.status === status ? '#00e676' : 'transparent',
+                        borderColor: 'rgba(255, 255, 255, 0.23)',
+                        '&:hover': {
+                          bgcolor: draft.status === status ? '#00c853' : 'rgba(255, 255, 255, 0.05)',
+                          borderColor: 'rgba(255, 255, 255, 0.5)'
+                        }
+                      }}
+                    >
+                      {t.statuses[status]}
+                    </Button>
+                  ))}
+                </Box>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.startTime}</Typography>
+                  <TextField
+                    value={draft.startTime}
+                    onChange={(e) => updateTimesDraft(index, { startTime: e.target.value })}
+                    type="time"
+                    size="small"
+                    InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.endTime}</Typography>
+                  <TextField
+                    value={draft.endTime}
+                    onChange={(e) => updateTimesDraft(index, { endTime: e.target.value })}
+                    type="time"
+                    size="small"
+                    InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '1.2rem', fontWeight: 600 }}>{t.hoursPaid}</Typography>
+                  <TextField
+                    value={draft.hours}
+                    onChange={(e) => updateTimesDraft(index, { hours: e.target.value })}
+                    placeholder={`${actual.hours} (${t.automatic})`}
+                    type="number"
+                    size="small"
+                    inputProps={{ min: 0, step: 0.25 }}
+                    InputProps={{ sx: { color: '#fff', fontSize: '1.2rem', fontWeight: 600, '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.23)' } } }}
+                  />
+                </Box>
+              </Box>
+              {renderPremiumBreakdown(actual.startTime, actual.endTime)}
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button
+          onClick={() => setTimesDay(null)}
+          sx={{ color: 'rgba(255, 255, 255, 0.7)' }}
+        >
+          {t.cancel}
+        </Button>
+        <Button
+          onClick={handleTimesDone}
+          variant="contained"
+          sx={{
+            bgcolor: '#00e676',
+            color: '#000',
+            '&:hover': {
+              bgcolor: '#00c853',
+            },
+          }}
+        >
+          {t.done}
+        </Button>
+      </DialogActions>
+    </Dialog>
     </>
   );
 };
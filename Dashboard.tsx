@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Grid, Typography, Box, Card, CardContent } from '@mui/material';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Grid, Typography, Box, Card, CardContent, Button, Alert, Snackbar } from '@mui/material';
 import {
   BarChart,
   Bar,
@@ -13,35 +13,88 @@ import {
 import Calendar from './Calendar';
 import EarningsCard from './EarningsCard';
 import Settings from './Settings';
-
-interface WorkDay {
-  day: number;
-  month: number;
-  shiftType: string;
-}
-
-interface ShiftConfig {
-  type: string;
-  label: string;
-  color: string;
-  hours: number;
-  overtimeMultiplier: number;
-  startTime?: string;
-  endTime?: string;
-  labelEn: string;
-}
-
-interface ShiftData {
-  earnings: number;
-  days: number;
-}
+import BackPayDialog from './BackPayDialog';
+import RestoreDialog from './RestoreDialog';
+import ArchivedShiftTypesDialog from './ArchivedShiftTypesDialog';
+import RotationDialog from './RotationDialog';
+import AbsenceCounters from './AbsenceCounters';
+import PayslipCard from './PayslipCard';
+import {
+  WorkDay,
+  WorkedDays,
+  WorkDayTimes,
+  WorkDayStatus,
+  ShiftConfig,
+  MonthPay,
+  DayPay,
+  YearPay,
+  PayContext,
+  SupplementKind,
+  SupplementSettings,
+  PremiumWindow,
+  OvertimeRules,
+  HolidayPaySettings,
+  RateChange,
+  SalarySettings,
+  RetroactivePay,
+  SUPPLEMENT_KINDS,
+  DEFAULT_SUPPLEMENTS,
+  DEFAULT_OVERTIME_RULES,
+  DEFAULT_HOLIDAY_PAY,
+  DEFAULT_SALARY,
+  calculateYearPay,
+  combineYearPays,
+  getBaseRateOn,
+  isPaidBySalary,
+  getSalaryOn,
+  resolveWorkDayShift,
+  toDateKey,
+  withRateChange
+} from './payEngine';
+import { createHolidayProvider, HolidayRegion, HOLIDAY_REGIONS, CustomHoliday } from './holidays';
+import { createStorage, StorageIssue, isArray, isPlainObject } from './storage';
+import { openWorkDayStore, YearSummary } from './workDayStore';
+import { BackupData, createBackup } from './backup';
+import { EditHistory, recordEdit, undoEdit, redoEdit } from './editHistory';
+import { RotationPlan, generateRotation, applyRotation, getRotationYears } from './rotation';
+import { DEFAULT_ABSENCE_TYPES, DEFAULT_VACATION_DAYS, getAbsenceCounters } from './absences';
+import { TaxSettings, DEFAULT_TAX_SETTINGS } from './tax';
+import { Deduction, DeductionAmount, MonthWithholding, getMonthWithholding, getNetShare } from './deductions';
+import { Payslip, reconcileYear } from './payslips';
+import { PayPeriodSettings, DEFAULT_PAY_PERIODS, getPayoutDate, groupByPayout, isAdditionsPart, summarizePayDays } from './payPeriods';
+import {
+  Job,
+  DEFAULT_JOB_ID,
+  ALL_JOBS,
+  JOB_COLORS,
+  getJobId,
+  getJobShiftTypes,
+  getJobWorkedDays,
+  createJobShiftTypes
+} from './jobs';
 
 interface MonthData {
   month: string;
-  shiftData: {
-    [key: string]: ShiftData;
-  };
+  shiftData: MonthPay['shiftData'];
+  supplementData: MonthPay['supplementData'];
+  premiumData: MonthPay['premiumData'];
+  statutoryOvertime: MonthPay['statutoryOvertime'];
+  holidayPay: MonthPay['holidayPay'];
+  salary?: number;
+  // Negative, so the chart draws it below the axis
+  vacationDeduction?: number;
+  // Negative like the deduction, only set in the net view
+  tax?: number;
+  deductions?: DeductionAmount[];
+  deductionTotal?: number;
+  // Paid minus calculated, for months whose payslip differs
+  payslipDifference?: number;
+  // Only when grouped by payout
+  payoutDate?: string;
+  baseRates: number[];
   total: number;
+  earned: number;
+  projected: number;
 }
 
 interface CustomTooltipProps {
@@ -64,6 +117,40 @@ interface Translations {
     totalEarningsMonth: string;
     baseRateHour: string;
     currencySymbol: string;
+    supplementLabels: Record<SupplementKind, string>;
+    statutoryOvertime: string;
+    rateFrom: string;
+    baseRateUsed: string;
+    allJobs: string;
+    mixedCurrencies: string;
+    storageIssues: string;
+    storageIssueBackup: string;
+    workDayError: string;
+    undo: string;
+    entryErased: string;
+    shiftTypeArchived: string;
+    rotationPreview: string;
+    editRotation: string;
+    cancel: string;
+    applyRotation: string;
+    jobDeleted: string;
+    earnedSoFar: string;
+    projected: string;
+    holidayPay: string;
+    salary: string;
+    salaryRateHour: string;
+    vacationDeduction: string;
+    holidayPayAccrued: string;
+    holidayPayAccruedGross: string;
+    gross: string;
+    net: string;
+    tax: string;
+    deductions: string;
+    payslipDifference: string;
+    byWorkMonth: string;
+    byPayout: string;
+    paidOn: string;
+    additions: string;
   };
 }
 
@@ -77,7 +164,45 @@ const translations: Translations = {
     projectedEarnings: 'Projected earnings for',
     totalEarningsMonth: 'Total earnings for',
     baseRateHour: 'Base rate per hour',
-    currencySymbol: '$'
+    currencySymbol: '$',
+    supplementLabels: {
+      saturday: 'Saturday supplement',
+      sunday: 'Sunday supplement',
+      holiday: 'Holiday supplement'
+    },
+    statutoryOvertime: 'Overtime (over daily/weekly limit)',
+    rateFrom: 'from',
+    baseRateUsed: 'Base rate',
+    allJobs: 'All jobs',
+    mixedCurrencies: 'The jobs are paid in different currencies and are shown one at a time',
+    storageIssues: 'Some saved data could not be read and was reset to defaults:',
+    storageIssueBackup: 'original kept in',
+    workDayError: 'Worked days could not be read or saved:',
+    undo: 'Undo',
+    entryErased: 'Shift erased',
+    shiftTypeArchived: 'Shift type archived, its worked days keep their pay',
+    rotationPreview: 'Rotation preview: {count} shifts from {start} to {end}',
+    editRotation: 'Edit',
+    cancel: 'Cancel',
+    applyRotation: 'Apply Rotation',
+    jobDeleted: 'Job deleted',
+    earnedSoFar: 'Earned so far',
+    projected: 'Projected',
+    holidayPay: 'Holiday pay',
+    salary: 'Monthly salary',
+    salaryRateHour: 'Hourly rate for extras',
+    vacationDeduction: 'Vacation deduction',
+    holidayPayAccrued: 'Holiday pay accrued',
+    holidayPayAccruedGross: 'Holiday pay accrued (gross)',
+    gross: 'Gross',
+    net: 'Net',
+    tax: 'Tax withheld',
+    deductions: 'Deductions',
+    payslipDifference: 'Payslip differs by',
+    byWorkMonth: 'By work month',
+    byPayout: 'By payout date',
+    paidOn: 'Paid out on',
+    additions: 'supplements'
   },
   no: {
     title: 'Jobbtid',
@@ -88,7 +213,45 @@ const translations: Translations = {
     projectedEarnings: 'Forventede inntekter for',
     totalEarningsMonth: 'Totale inntekter for',
     baseRateHour: 'Grunnlønn per time',
-    currencySymbol: 'NOK'
+    currencySymbol: 'NOK',
+    supplementLabels: {
+      saturday: 'Lørdagstillegg',
+      sunday: 'Søndagstillegg',
+      holiday: 'Helligdagstillegg'
+    },
+    statutoryOvertime: 'Overtid (over dags-/ukegrense)',
+    rateFrom: 'fra',
+    baseRateUsed: 'Grunnlønn',
+    allJobs: 'Alle jobber',
+    mixedCurrencies: 'Jobbene betales i ulike valutaer og vises én om gangen',
+    storageIssues: 'Noen lagrede data kunne ikke leses og ble tilbakestilt:',
+    storageIssueBackup: 'originalen er lagret i',
+    workDayError: 'Arbeidsdager kunne ikke leses eller lagres:',
+    undo: 'Angre',
+    entryErased: 'Vakt fjernet',
+    shiftTypeArchived: 'Vakttype arkivert, arbeidsdagene beholder lønnen',
+    rotationPreview: 'Forhåndsvisning av turnus: {count} vakter fra {start} til {end}',
+    editRotation: 'Endre',
+    cancel: 'Avbryt',
+    applyRotation: 'Bruk turnus',
+    jobDeleted: 'Jobb slettet',
+    earnedSoFar: 'Opptjent hittil',
+    projected: 'Forventet',
+    holidayPay: 'Feriepenger',
+    salary: 'Fastlønn',
+    salaryRateHour: 'Timesats for tillegg',
+    vacationDeduction: 'Ferietrekk',
+    holidayPayAccrued: 'Opptjente feriepenger',
+    holidayPayAccruedGross: 'Opptjente feriepenger (brutto)',
+    gross: 'Brutto',
+    net: 'Netto',
+    tax: 'Skattetrekk',
+    deductions: 'Trekk',
+    payslipDifference: 'Lønnsslippen avviker med',
+    byWorkMonth: 'Etter arbeidsmåned',
+    byPayout: 'Etter utbetalingsdato',
+    paidOn: 'Utbetales',
+    additions: 'tillegg'
   }
 };
 
@@ -122,71 +285,187 @@ const formatNorwegianAmount = (amount: number, options: CurrencyFormatOptions =
   return `${formattedNumber}\u00A0NOK`; // Using non-breaking space to keep NOK on same line
 };
 
+const SUPPLEMENT_COLORS: Record<SupplementKind, string> = {
+  saturday: '#ff9800',
+  sunday: '#EC4899',
+  holiday: '#ff6b6b'
+};
+
+const STATUTORY_OVERTIME_COLOR = '#ff5252';
+
+const SALARY_COLOR = '#4db6ac';
+
+const HOLIDAY_PAY_COLOR = '#ffd54f';
+
+const VACATION_DEDUCTION_COLOR = '#ff8a80';
+
+const TAX_COLOR = '#90a4ae';
+
+const DEDUCTION_COLOR = '#b0bec5';
+
+const PREMIUM_COLORS = ['#8B5CF6', '#00bcd4', '#ffeb3b', '#795548', '#9c27b0', '#607d8b'];
+
 const DEFAULT_SHIFT_TYPES = [
   { type: 'day', label: 'Dag skift 🌇', color: '#FFFFFF', hours: 7.3, overtimeMultiplier: 0, startTime: '06:00', endTime: '14:10', labelEn: 'Day Shift 🌇' },
   { type: 'evening', label: 'Kvelds skift 🏙️', color: '#22C55E', hours: 7.3, overtimeMultiplier: 50, startTime: '14:00', endTime: '22:10', labelEn: 'Evening Shift 🏙️' },
   { type: 'night', label: 'Natt skift 🌃', color: '#2196f3', hours: 7.3, overtimeMultiplier: 60, startTime: '22:00', endTime: '06:10', labelEn: 'Night Shift 🌃' },
-  { type: 'overtime', label: 'Overtid 🕜💵', color: '#EF4444', hours: 10.1, overtimeMultiplier: 100, startTime: '11:30', endTime: '22:10', labelEn: 'Overtime 🕜💵' }
+  { type: 'overtime', label: 'Overtid 🕜💵', color: '#EF4444', hours: 10.1, overtimeMultiplier: 100, startTime: '11:30', endTime: '22:10', labelEn: 'Overtime 🕜💵' },
+  ...DEFAULT_ABSENCE_TYPES
 ];
 
+// The state that undo and redo restore
+interface EditSnapshot {
+  workedDays: WorkedDays;
+  shiftTypes: ShiftConfig[];
+  jobs: Job[];
+}
+
 const Dashboard: React.FC = () => {
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
-  const [workedDays, setWorkedDays] = useState<{ [year: number]: WorkDay[] }>(() => {
-    const saved = localStorage.getItem('workedDays');
-    return saved ? JSON.parse(saved) : {};
-  });
-  const [language, setLanguage] = useState<'en' | 'no'>('no');
-  const [baseRate, setBaseRate] = useState(() => {
-    const saved = localStorage.getItem('baseRate');
-    return saved ? JSON.parse(saved) : 300;
-  });
+  // Opened once; migrates old data before any state is read from it
+  const [storage] = useState(() => createStorage(window.localStorage));
+  const [storageIssues, setStorageIssues] = useState<StorageIssue[]>(() => storage.issues);
+  // Worked days are read from the store a year at a time, see loadYears
+  const [workDayStore] = useState(() => openWorkDayStore(storage));
+  const [workedDays, setWorkedDays] = useState<WorkedDays>({});
+  const [loadedYears, setLoadedYears] = useState<number[]>([]);
+  const [storedYears, setStoredYears] = useState<YearSummary[]>([]);
+  const yearLoads = useRef<{ [year: number]: Promise<void> }>({});
+  // Why worked days could not be read or saved, shown until dismissed
+  const [workDayError, setWorkDayError] = useState<string>();
+  // What the store holds for each loaded year, so saving writes only the difference
+  const savedDays = useRef<WorkedDays>({});
+  const [language, setLanguage] = useState<'en' | 'no'>(() =>
+    storage.load<'en' | 'no'>('language', 'no', value => value === 'en' || value === 'no'));
+  const reportWorkDayError = (error: unknown) => {
+    setWorkDayError(error instanceof Error ? error.message : String(error));
+  };
+  const [jobs, setJobs] = useState<Job[]>(() => storage.load<Job[]>('jobs', [{
+    id: DEFAULT_JOB_ID,
+    name: language === 'en' ? 'Main job' : 'Hovedjobb',
+    color: JOB_COLORS[0],
+    baseRate: 300,
+    rateHistory: []
+  }], value => isArray(value) && (value as Job[]).length > 0));
+  const [selectedJobId, setSelectedJobId] = useState<string>(() =>
+    storage.load('selectedJobId', ALL_JOBS, value => typeof value === 'string'));
   const t = translations[language];
-  const [shiftTypes, setShiftTypes] = useState<ShiftConfig[]>(() => {
-    const saved = localStorage.getItem('shiftTypes');
-    const lang = localStorage.getItem('language') || 'no';
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed) && parsed.length === 4 && parsed.every(s => s.type && s.label)) {
-          // Patch labels and colors if needed
-          return DEFAULT_SHIFT_TYPES.map(def => {
-            const found = parsed.find(s => s.type === def.type);
-            if (!found) return { ...def, label: lang === 'no' ? def.label : def.labelEn };
-            return {
-              ...def,
-              ...found,
-              label: lang === 'no' ? def.label : def.labelEn,
-              color: def.color,
-              labelEn: def.labelEn
-            };
-          });
-        }
-        return parsed;
-      } catch {
-        return DEFAULT_SHIFT_TYPES.map(def => ({ ...def, label: lang === 'no' ? def.label : def.labelEn }));
-      }
-    }
-    return DEFAULT_SHIFT_TYPES.map(def => ({ ...def, label: lang === 'no' ? def.label : def.labelEn }));
-  });
-  const [currencyConfig, setCurrencyConfig] = useState<{ currency: string; position: 'before' | 'after' }>(() => {
-    const saved = localStorage.getItem('currencyConfig');
-    return saved ? JSON.parse(saved) : { currency: 'kr', position: 'after' };
-  });
+  // Labels of the default shift types follow the language, see the effect below
+  const [shiftTypes, setShiftTypes] = useState<ShiftConfig[]>(() =>
+    storage.load<ShiftConfig[]>('shiftTypes', DEFAULT_SHIFT_TYPES, isArray));
+  const [currencyConfig, setCurrencyConfig] = useState<{ currency: string; position: 'before' | 'after' }>(() =>
+    storage.load('currencyConfig', { currency: 'kr', position: 'after' as const }, isPlainObject));
+
+  const [holidayRegion, setHolidayRegion] = useState<HolidayRegion>(() =>
+    storage.load<HolidayRegion>('holidayRegion', 'NO', value => HOLIDAY_REGIONS.includes(value as HolidayRegion)));
+  const [customHolidays, setCustomHolidays] = useState<CustomHoliday[]>(() =>
+    storage.load<CustomHoliday[]>('customHolidays', [], isArray));
+  const [supplements, setSupplements] = useState<SupplementSettings>(() =>
+    ({ ...DEFAULT_SUPPLEMENTS, ...storage.load('supplements', {}, isPlainObject) }));
+  const [premiumWindows, setPremiumWindows] = useState<PremiumWindow[]>(() =>
+    storage.load<PremiumWindow[]>('premiumWindows', [], isArray));
+  const [overtimeRules, setOvertimeRules] = useState<OvertimeRules>(() =>
+    ({ ...DEFAULT_OVERTIME_RULES, ...storage.load('overtimeRules', {}, isPlainObject) }));
+  const [holidayPay, setHolidayPay] = useState<HolidayPaySettings>(() =>
+    ({ ...DEFAULT_HOLIDAY_PAY, ...storage.load('holidayPay', {}, isPlainObject) }));
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(() =>
+    ({ ...DEFAULT_TAX_SETTINGS, ...storage.load('taxSettings', {}, isPlainObject) }));
+  const [deductions, setDeductions] = useState<Deduction[]>(() =>
+    storage.load<Deduction[]>('deductions', [], isArray));
+  const [payslips, setPayslips] = useState<Payslip[]>(() =>
+    storage.load<Payslip[]>('payslips', [], isArray));
+  const [payPeriods, setPayPeriods] = useState<PayPeriodSettings>(() =>
+    ({ ...DEFAULT_PAY_PERIODS, ...storage.load('payPeriods', {}, isPlainObject) }));
+  const [showByPayout, setShowByPayout] = useState<boolean>(() =>
+    storage.load('showByPayout', false, value => typeof value === 'boolean'));
+  const [showNet, setShowNet] = useState<boolean>(() =>
+    storage.load('showNet', false, value => typeof value === 'boolean'));
+  const [backPayOpen, setBackPayOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [rotationOpen, setRotationOpen] = useState(false);
+  // The last rotation built, offered again the next time
+  const [rotationPlan, setRotationPlan] = useState<RotationPlan>(() => storage.load<RotationPlan>('rotationPlan', {
+    blocks: [{ shiftType: 'day', days: 2 }, { shiftType: 'evening', days: 2 }, { shiftType: 'night', days: 2 }, { days: 4 }],
+    startDate: '',
+    endDate: '',
+    holidayMode: 'work',
+    overwrite: false
+  }, isPlainObject));
+  const [vacationDays, setVacationDays] = useState<number>(() =>
+    storage.load('vacationDays', DEFAULT_VACATION_DAYS, value => typeof value === 'number'));
+  // Set while a rotation is shown on the calendar but not yet applied
+  const [rotationPreview, setRotationPreview] = useState<RotationPlan>();
+  const [editHistory, setEditHistory] = useState<EditHistory<EditSnapshot>>({ past: [], future: [] });
+  // Shown with an undo button after an edit that removed something
+  const [undoNotice, setUndoNotice] = useState<string>();
 
-  // Save to localStorage on change
+  // Save to localStorage on change; worked days go to the worked day store
   useEffect(() => {
-    localStorage.setItem('workedDays', JSON.stringify(workedDays));
+    Object.keys(workedDays).map(Number).forEach(year => {
+      const previous = savedDays.current[year] || [];
+      if (workedDays[year] === previous) return;
+      savedDays.current = { ...savedDays.current, [year]: workedDays[year] };
+      workDayStore
+        .then(store => store.saveYear(year, workedDays[year], previous))
+        .catch(reportWorkDayError);
+    });
   }, [workedDays]);
   useEffect(() => {
-    localStorage.setItem('shiftTypes', JSON.stringify(shiftTypes));
+    storage.save('shiftTypes', shiftTypes);
   }, [shiftTypes]);
   useEffect(() => {
-    localStorage.setItem('currencyConfig', JSON.stringify(currencyConfig));
+    storage.save('currencyConfig', currencyConfig);
   }, [currencyConfig]);
   useEffect(() => {
-    localStorage.setItem('baseRate', JSON.stringify(baseRate));
-  }, [baseRate]);
+    storage.save('jobs', jobs);
+  }, [jobs]);
+  useEffect(() => {
+    storage.save('selectedJobId', selectedJobId);
+  }, [selectedJobId]);
+  useEffect(() => {
+    storage.save('holidayRegion', holidayRegion);
+  }, [holidayRegion]);
+  useEffect(() => {
+    storage.save('customHolidays', customHolidays);
+  }, [customHolidays]);
+  useEffect(() => {
+    storage.save('supplements', supplements);
+  }, [supplements]);
+  useEffect(() => {
+    storage.save('premiumWindows', premiumWindows);
+  }, [premiumWindows]);
+  useEffect(() => {
+    storage.save('overtimeRules', overtimeRules);
+  }, [overtimeRules]);
+  useEffect(() => {
+    storage.save('holidayPay', holidayPay);
+  }, [holidayPay]);
+  useEffect(() => {
+    storage.save('taxSettings', taxSettings);
+  }, [taxSettings]);
+  useEffect(() => {
+    storage.save('deductions', deductions);
+  }, [deductions]);
+  useEffect(() => {
+    storage.save('payslips', payslips);
+  }, [payslips]);
+  useEffect(() => {
+    storage.save('payPeriods', payPeriods);
+  }, [payPeriods]);
+  useEffect(() => {
+    storage.save('showByPayout', showByPayout);
+  }, [showByPayout]);
+  useEffect(() => {
+    storage.save('showNet', showNet);
+  }, [showNet]);
+  useEffect(() => {
+    storage.save('rotationPlan', rotationPlan);
+  }, [rotationPlan]);
+  useEffect(() => {
+    storage.save('vacationDays', vacationDays);
+  }, [vacationDays]);
 
   // Add after the shiftTypes state initialization
   useEffect(() => {
@@ -205,16 +484,150 @@ const Dashboard: React.FC = () => {
         return shift; // custom types
       });
     });
-    // Also persist language in localStorage for reloads
-    localStorage.setItem('language', language);
+    // Also persist language for reloads
+    storage.save('language', language);
   }, [language]);
 
+  // Resolves with the days of the given years once they are in state. Years
+  // are loaded once; weekly overtime needs the neighbours of the viewed year.
+  // A failed load is forgotten so the years are read again next time.
+  const loadYears = (years: number[]): Promise<WorkedDays> => {
+    const missing = years.filter(year => !yearLoads.current[year]);
+    if (missing.length) {
+      const load: Promise<void> = workDayStore
+        .then(store => store.loadYears(missing))
+        .then(loaded => {
+          savedDays.current = { ...savedDays.current, ...loaded };
+          setWorkedDays(prev => ({ ...prev, ...loaded }));
+          setLoadedYears(prev => [...prev, ...missing]);
+        })
+        .catch(error => {
+          missing.forEach(year => {
+            if (yearLoads.current[year] === load) delete yearLoads.current[year];
+          });
+          throw error;
+        });
+      missing.forEach(year => {
+        yearLoads.current[year] = load;
+      });
+    }
+    return Promise.all(years.map(year => yearLoads.current[year])).then(() =>
+      years.reduce((acc, year) => ({ ...acc, [year]: savedDays.current[year] || [] }), {} as WorkedDays));
+  };
+
+  useEffect(() => {
+    workDayStore.then(store => store.getYears()).then(years => {
+      setStoredYears(years);
+      // Moving old data into the store may have found an unreadable value
+      setStorageIssues([...storage.issues]);
+    }).catch(reportWorkDayError);
+  }, []);
+
+  useEffect(() => {
+    loadYears([selectedYear - 1, selectedYear, selectedYear + 1]).catch(reportWorkDayError);
+  }, [selectedYear]);
+
+  // Amounts in different currencies can't be added up, so jobs paid in
+  // different currencies are only shown one at a time
+  const mixedCurrencies = jobs.some(job => (job.currency || currencyConfig).currency !== (jobs[0].currency || currencyConfig).currency);
+  // The selected job, or undefined when all jobs are shown together
+  const activeJob = jobs.find(job => job.id === selectedJobId) || (mixedCurrencies ? jobs[0] : undefined);
+  // Rate edits and back pay apply to the selected job, or to the first job in
+  // the combined view
+  const editJob = activeJob || jobs[0];
+  const viewCurrency = activeJob?.currency || currencyConfig;
+  const isInView = (item: { jobId?: string }) => !activeJob || getJobId(item) === activeJob.id;
+  const visibleShiftTypes = useMemo(
+    () => activeJob ? getJobShiftTypes(shiftTypes, activeJob.id) : shiftTypes,
+    [shiftTypes, activeJob]
+  );
+
+  // Day edits, shift type edits and rate changes can be undone; call before the edit
+  const recordUndo = (notice?: string) => {
+    setEditHistory(prev => recordEdit(prev, { workedDays, shiftTypes, jobs }));
+    setUndoNotice(notice);
+  };
+
+  // Years loaded after the snapshot was taken are kept
+  const applySnapshot = (snapshot: EditSnapshot) => {
+    setWorkedDays(prev => ({ ...prev, ...snapshot.workedDays }));
+    setShiftTypes(snapshot.shiftTypes);
+    setJobs(snapshot.jobs);
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(editHistory, { workedDays, shiftTypes, jobs });
+    if (!result) return;
+    setEditHistory(result.history);
+    applySnapshot(result.snapshot);
+    setUndoNotice(undefined);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(editHistory, { workedDays, shiftTypes, jobs });
+    if (!result) return;
+    setEditHistory(result.history);
+    applySnapshot(result.snapshot);
+    setUndoNotice(undefined);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Text fields keep
+  // their own undo. Subscribed on every render so the handlers see current state.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if ((event.target as HTMLElement).closest?.('input, textarea, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const updateJob = (jobId: string, update: (job: Job) => Job) => {
+    recordUndo();
+    setJobs(prev => prev.map(job => job.id === jobId ? update(job) : job));
+  };
+
+  // New jobs start with their own copies of the default shift types; a job
+  // can only be removed once it has no worked days
+  const handleJobsChange = (nextJobs: Job[]) => {
+    const added = nextJobs.filter(job => !jobs.some(j => j.id === job.id));
+    const removedIds = jobs.filter(job => !nextJobs.some(j => j.id === job.id)).map(job => job.id);
+    const templates = DEFAULT_SHIFT_TYPES.map(def => ({ ...def, label: language === 'no' ? def.label : def.labelEn }));
+    recordUndo(removedIds.length ? t.jobDeleted : undefined);
+    setShiftTypes(prev => [
+      ...prev.filter(shift => !removedIds.includes(getJobId(shift))),
+      ...added.flatMap(job => createJobShiftTypes(templates, job))
+    ]);
+    setJobs(nextJobs);
+    if (removedIds.includes(selectedJobId)) setSelectedJobId(ALL_JOBS);
+  };
+
+  // Jobs and shift types of years that are not loaded come from the store's
+  // year summaries
+  const unloadedYears = storedYears.filter(({ year }) => !loadedYears.includes(year));
+  const usedJobIds = [
+    ...Object.values(workedDays).flat().map(getJobId),
+    ...unloadedYears.flatMap(({ jobIds }) => jobIds)
+  ].filter((id, index, all) => all.indexOf(id) === index);
+  const usedShiftTypes = [
+    ...Object.values(workedDays).flat().map(wd => wd.shiftType),
+    ...unloadedYears.flatMap(({ shiftTypes }) => shiftTypes)
+  ].filter((type, index, all) => all.indexOf(type) === index);
+
   // Universal currency formatter
   const formatAmount = (
     amount: number,
     opts?: { isYAxisLabel?: boolean }
   ): string => {
-    const { currency, position } = currencyConfig;
+    const { currency, position } = viewCurrency;
     const { isYAxisLabel = false } = opts || {};
     const isWhole = Number.isInteger(amount);
     // Use ' ' (space) as thousands separator
@@ -231,9 +644,55 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  // Update baseRate for the current language
+  // Editing the rate records a change from the first of the selected month,
+  // so earlier months keep the rate they were paid with
   const handleBaseRateChange = (newRate: number) => {
-    setBaseRate(newRate);
+    const effectiveFrom = toDateKey(new Date(selectedYear, selectedMonth, 1));
+    updateJob(editJob.id, job => ({
+      ...job,
+      rateHistory: [
+        ...job.rateHistory.filter(change => change.effectiveFrom !== effectiveFrom),
+        { effectiveFrom, rate: newRate }
+      ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    }));
+  };
+
+  const formatDateKey = (dateKey: string) => {
+    const [y, m, d] = dateKey.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString(language === 'no' ? 'nb-NO' : 'en-US');
+  };
+
+  const handleRateHistoryChange = (settings: { baseRate: number; rateHistory: RateChange[] }) => {
+    updateJob(editJob.id, job => ({ ...job, ...settings }));
+  };
+
+  const handleSalaryChange = (salary: SalarySettings) => {
+    updateJob(editJob.id, job => ({ ...job, salary }));
+  };
+  const editJobSalary = { ...DEFAULT_SALARY, ...editJob.salary };
+
+  // The rate valid at the start of the selected month and the change it comes from
+  const selectedMonthStart = new Date(selectedYear, selectedMonth, 1);
+  const selectedMonthRate = getBaseRateOn(selectedMonthStart, { ...editJob, salary: editJobSalary });
+  const selectedRateChange = editJob.rateHistory
+    .filter(change => change.effectiveFrom <= toDateKey(selectedMonthStart))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  const selectedMonthSalary = getSalaryOn(selectedMonthStart, editJobSalary);
+  const selectedSalaryChange = editJobSalary.history
+    .filter(change => change.effectiveFrom <= toDateKey(selectedMonthStart))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+
+  // Like the rate, editing the salary records a change from the first of the
+  // selected month
+  const handleMonthlySalaryChange = (monthlySalary: number) => {
+    const effectiveFrom = toDateKey(selectedMonthStart);
+    handleSalaryChange({
+      ...editJobSalary,
+      history: [
+        ...editJobSalary.history.filter(change => change.effectiveFrom !== effectiveFrom),
+        { effectiveFrom, monthlySalary }
+      ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    });
   };
 
   // Add currency conversion functions
@@ -245,18 +704,33 @@ const Dashboard: React.FC = () => {
     setSelectedYear(year);
   };
 
-  const handleDayClick = (day: number, shiftType: string) => {
+  // A plain click replaces the day's shifts, a stacking click adds another
+  // shift to the day and erasing removes the most recently added one
+  // Only entries of the selected job are replaced or erased; a new entry
+  // belongs to the job of its shift type
+  const handleDayClick = (day: number, shiftType: string, stack = false) => {
+    if (!loadedYears.includes(selectedYear)) return;
+    const isSameDay = (wd: WorkDay) => wd.day === day && wd.month === selectedMonth && isInView(wd);
+    const isErasing = !shiftType && (workedDays[selectedYear] || []).some(isSameDay);
+    recordUndo(isErasing ? t.entryErased : undefined);
     setWorkedDays(prev => {
       const yearDays = prev[selectedYear] || [];
-      // Remove any existing entry for this day in the selected month
-      const filtered = yearDays.filter(
-        wd => !(wd.day === day && wd.month === selectedMonth)
-      );
-      
-      // Add the new work day if it's not being toggled off
-      const newYearDays = shiftType
-        ? [...filtered, { day, month: selectedMonth, shiftType }]
-        : filtered;
+      const entry: WorkDay = {
+        day,
+        month: selectedMonth,
+        shiftType,
+        jobId: getJobId(shiftTypes.find(s => s.type === shiftType) || {})
+      };
+
+      let newYearDays: WorkDay[];
+      if (!shiftType) {
+        const lastIndex = yearDays.map(isSameDay).lastIndexOf(true);
+        newYearDays = yearDays.filter((_, index) => index !== lastIndex);
+      } else if (stack) {
+        newYearDays = [...yearDays, entry];
+      } else {
+        newYearDays = [...yearDays.filter(wd => !isSameDay(wd)), entry];
+      }
 
       return {
         ...prev,
@@ -265,34 +739,90 @@ const Dashboard: React.FC = () => {
     });
   };
 
-  const getWorkedDaysForMonth = (year: number, month: number): { [key: number]: string } => {
+  // Records the actual times or hours of the nth entry on a day; undefined
+  // values fall back to the shift type's template
+  const handleWorkDayTimesChange = (day: number, index: number, times: WorkDayTimes) => {
+    if (!loadedYears.includes(selectedYear)) return;
+    recordUndo();
+    setWorkedDays(prev => {
+      let entry = -1;
+      return {
+        ...prev,
+        [selectedYear]: (prev[selectedYear] || []).map(wd => {
+          if (wd.day !== day || wd.month !== selectedMonth || !isInView(wd) || ++entry !== index) return wd;
+          return { ...wd, ...times };
+        })
+      };
+    });
+  };
+
+  const handleWorkDayStatusChange = (day: number, index: number, status: WorkDayStatus) => {
+    if (!loadedYears.includes(selectedYear)) return;
+    recordUndo();
+    setWorkedDays(prev => {
+      let entry = -1;
+      return {
+        ...prev,
+        [selectedYear]: (prev[selectedYear] || []).map(wd => {
+          if (wd.day !== day || wd.month !== selectedMonth || !isInView(wd) || ++entry !== index) return wd;
+          return { ...wd, status };
+        })
+      };
+    });
+  };
+
+  // Entries worked on each day of the month, in the order they were added
+  const getWorkedDaysForMonth = (year: number, month: number): { [key: number]: WorkDay[] } => {
     const yearData = workedDays[year] || [];
     return yearData
-      .filter(wd => wd.month === month)
-      .reduce((acc, { day, shiftType }) => ({
+      .filter(wd => wd.month === month && isInView(wd))
+      .reduce((acc, wd) => ({
         ...acc,
-        [day]: shiftType
-      }), {});
+        [wd.day]: [...(acc[wd.day] || []), wd]
+      }), {} as { [key: number]: WorkDay[] });
   };
 
-  const calculateMonthlyEarnings = (year: number, month: number) => {
-    const monthWorkedDays = getWorkedDaysForMonth(year, month);
-    return Object.entries(monthWorkedDays).reduce((total, [_, shiftType]) => {
-      const shift = shiftTypes.find(s => s.type === shiftType);
-      if (!shift) return total;
+  // Holidays shared by the calendar highlighting and pay rules
+  const holidayProvider = useMemo(() => createHolidayProvider({
+    region: holidayRegion,
+    language,
+    customHolidays
+  }), [holidayRegion, language, customHolidays]);
 
-      const basePayForShift = baseRate * shift.hours;
-      const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-      return total + (basePayForShift * (1 + overtimeRate));
-    }, 0);
-  };
+  const getJobPayContext = (job: Job): PayContext => ({
+    shiftTypes: getJobShiftTypes(shiftTypes, job.id),
+    rates: {
+      baseRate: job.baseRate,
+      rateHistory: job.rateHistory,
+      supplements,
+      premiumWindows,
+      overtimeRules,
+      holidayPay,
+      salary: job.salary && { ...DEFAULT_SALARY, ...job.salary }
+    },
+    holidays: holidayProvider
+  });
+
+  // Each job is priced on its own, so overtime limits apply per employer; the
+  // combined view adds the jobs up
+  const calculateViewYearPay = (year: number, days: WorkedDays = workedDays): YearPay => activeJob
+    ? calculateYearPay(year, getJobWorkedDays(days, activeJob.id), getJobPayContext(activeJob))
+    : combineYearPays(year, jobs.map(job =>
+      calculateYearPay(year, getJobWorkedDays(days, job.id), getJobPayContext(job))));
 
-  const calculateYearlyEarnings = (year: number) => {
-    return Array.from({ length: 12 }, (_, i) => calculateMonthlyEarnings(year, i))
-      .reduce((sum, monthEarnings) => sum + monthEarnings, 0);
+  const editJobContext = useMemo(
+    () => getJobPayContext(editJob),
+    [editJob, shiftTypes, supplements, premiumWindows, overtimeRules, holidayPay, holidayProvider]
+  );
+  const editJobWorkedDays = useMemo(() => getJobWorkedDays(workedDays, editJob.id), [workedDays, editJob]);
+
+  const getPremiumColor = (windowId: string) => {
+    const index = premiumWindows.findIndex(w => w.id === windowId);
+    return PREMIUM_COLORS[Math.max(index, 0) % PREMIUM_COLORS.length];
   };
 
   const handleShiftHoursChange = (shiftType: string, hours: number, overtimeMultiplier?: number) => {
+    recordUndo();
     setShiftTypes(prev => prev.map(shift => 
       shift.type === shiftType 
         ? { 
@@ -304,59 +834,176 @@ const Dashboard: React.FC = () => {
     ));
   };
 
+  // The calendar edits the shift types of the current view. New ones belong
+  // to the edited job and get a suffix if another job uses the same key.
+  // Deleted types that worked days still use are archived so those days keep
+  // their pay.
   const handleShiftTypesChange = (newShiftTypes: ShiftConfig[]) => {
-    setShiftTypes(newShiftTypes);
+    const archived = visibleShiftTypes
+      .filter(shift => !newShiftTypes.some(s => s.type === shift.type) && usedShiftTypes.includes(shift.type))
+      .map(shift => ({ ...shift, archived: true }));
+    recordUndo(archived.length ? t.shiftTypeArchived : undefined);
+    setShiftTypes(prev => {
+      const hidden = prev.filter(shift => !isInView(shift));
+      return [
+        ...hidden,
+        ...newShiftTypes.map(shift => {
+          if (shift.jobId || prev.some(s => s.type === shift.type && isInView(s))) return shift;
+          const jobId = editJob.id;
+          const type = hidden.some(s => s.type === shift.type) ? `${shift.type}_${jobId}` : shift.type;
+          return { ...shift, type, jobId };
+        }),
+        ...archived
+      ];
+    });
+  };
+
+  // Moves every entry of a shift type to another; the years are all loaded
+  // before the archive dialog opens
+  const handleReassignShiftType = (fromType: string, toType: string) => {
+    recordUndo();
+    setWorkedDays(prev => Object.keys(prev).map(Number).reduce((acc, year) => ({
+      ...acc,
+      [year]: prev[year].some(wd => wd.shiftType === fromType)
+        ? prev[year].map(wd => wd.shiftType === fromType ? { ...wd, shiftType: toType } : wd)
+        : prev[year]
+    }), {} as WorkedDays));
+  };
+
+  const handleUnarchiveShiftType = (shiftType: string) => {
+    recordUndo();
+    setShiftTypes(prev => prev.map(shift => {
+      if (shift.type !== shiftType) return shift;
+      const { archived, ...active } = shift;
+      return active;
+    }));
+  };
+
+  const handleDeleteArchivedShiftType = (shiftType: string) => {
+    recordUndo();
+    setShiftTypes(prev => prev.filter(shift => shift.type !== shiftType));
+  };
+
+  // The rotation's shifts are for the job in view; days with entries of that
+  // job are left alone unless the rotation overwrites them
+  const rotationDays = useMemo(() => rotationPreview
+    ? generateRotation(rotationPreview, holidayProvider, (year, month, day) =>
+      (workedDays[year] || []).some(wd => wd.month === month && wd.day === day && isInView(wd)))
+    : [],
+    [rotationPreview, holidayProvider, workedDays, activeJob]
+  );
+
+  const previewDays = rotationDays
+    .filter(rotationDay => rotationDay.year === selectedYear && rotationDay.month === selectedMonth)
+    .reduce((acc, rotationDay) => ({ ...acc, [rotationDay.day]: rotationDay.shiftType }), {} as { [day: number]: string });
+
+  // Every year of the rotation is loaded before it is previewed, so applying
+  // it can check and change them all
+  const handleRotationPreview = (plan: RotationPlan) => {
+    setRotationPlan(plan);
+    setRotationOpen(false);
+    loadYears(getRotationYears(plan)).then(() => {
+      const [year, month] = plan.startDate.split('-').map(Number);
+      setSelectedYear(year);
+      setSelectedMonth(month - 1);
+      setRotationPreview(plan);
+    }).catch(reportWorkDayError);
+  };
+
+  const handleApplyRotation = () => {
+    recordUndo();
+    setWorkedDays(prev => applyRotation(prev, rotationDays, rotationDay => ({
+      day: rotationDay.day,
+      month: rotationDay.month,
+      shiftType: rotationDay.shiftType,
+      jobId: getJobId(shiftTypes.find(s => s.type === rotationDay.shiftType) || {})
+    }), isInView));
+    setRotationPreview(undefined);
   };
 
   // Memoize the worked days for the current month/year
   const currentMonthWorkedDays = useMemo(() => 
     getWorkedDaysForMonth(selectedYear, selectedMonth),
-    [selectedYear, selectedMonth, workedDays]
+    [selectedYear, selectedMonth, workedDays, activeJob]
   );
 
-  // Memoize monthly data calculation
-  const monthlyData = useMemo(() => Array.from({ length: 12 }, (_, month) => {
-    const monthWorkedDays = getWorkedDaysForMonth(selectedYear, month);
-    
-    // Calculate earnings per shift type
-    const shiftData = Object.entries(monthWorkedDays).reduce((acc, [_, shiftType]) => {
-      if (!acc[shiftType]) {
-        acc[shiftType] = { earnings: 0, days: 0 };
-      }
+  // Memoize the pay breakdown for the selected year, by the month the work
+  // was done in
+  const workYearPay = useMemo(() =>
+    calculateViewYearPay(selectedYear),
+    [selectedYear, workedDays, jobs, activeJob, shiftTypes, supplements, premiumWindows, overtimeRules, holidayPay, holidayProvider]
+  );
 
-      const shift = shiftTypes.find(s => s.type === shiftType);
-      if (shift) {
-        const basePayForShift = baseRate * shift.hours;
-        const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-        const earnings = basePayForShift * (1 + overtimeRate);
-        
-        acc[shiftType].earnings += earnings;
-        acc[shiftType].days += 1;
-      }
+  // Grouped by payout, the cards, chart, payslips and exports follow the pay
+  // periods; the calendar keeps showing the pay of each worked day
+  const byPayout = showByPayout && payPeriods.enabled;
+  const toPayoutYearPay = (yearPay: YearPay, days: WorkedDays = workedDays): YearPay =>
+    groupByPayout(yearPay, calculateViewYearPay(yearPay.year - 1, days), payPeriods);
+  const selectedYearPay = useMemo(
+    () => byPayout ? toPayoutYearPay(workYearPay) : workYearPay,
+    [workYearPay, byPayout, payPeriods]
+  );
 
-      return acc;
-    }, {} as { [key: string]: { earnings: number; days: number } });
+  // Net figures are only shown when a tax estimate or deductions are configured
+  const hasNetPay = taxSettings.enabled || deductions.length > 0;
+  const netView = showNet && hasNetPay;
+  const getWithholding = (monthPay: MonthPay): MonthWithholding => getMonthWithholding(monthPay, taxSettings, deductions);
 
-    const total = Object.values(shiftData).reduce((sum, { earnings }) => sum + earnings, 0);
+  // Payslips of the view checked against the calculated months; the combined
+  // view adds up the payslips of all jobs
+  const getExpectedNet = (monthPay: MonthPay) => hasNetPay ? getWithholding(monthPay).net : undefined;
+  const payslipChecks = useMemo(
+    () => reconcileYear(payslips.filter(isInView), selectedYearPay, getExpectedNet),
+    [payslips, activeJob, selectedYearPay, taxSettings, deductions]
+  );
 
+  // Memoize monthly data calculation. The categories hold what has been
+  // earned; planned shifts are stacked on top as one forecast bar.
+  const monthlyData = useMemo(() => selectedYearPay.months.map(monthPay => {
+    const earned = summarizePayDays(monthPay.year, monthPay.month, monthPay.days.filter(d => d.status === 'worked'), monthPay.baseRates);
+    const withholding = getWithholding(monthPay);
+    const payslipCheck = payslipChecks.find(check => check.payslip.month === monthPay.month);
     return {
-      month: new Date(selectedYear, month).toLocaleString('default', { month: 'short' }),
-      shiftData,
-      total
+      month: new Date(selectedYear, monthPay.month).toLocaleString('default', { month: 'short' }),
+      shiftData: earned.shiftData,
+      supplementData: earned.supplementData,
+      premiumData: earned.premiumData,
+      statutoryOvertime: earned.statutoryOvertime,
+      holidayPay: monthPay.holidayPay,
+      salary: monthPay.salary,
+      vacationDeduction: monthPay.holidayPay?.deduction ? -monthPay.holidayPay.deduction : undefined,
+      tax: netView ? -withholding.tax : undefined,
+      deductions: netView ? withholding.deductions : undefined,
+      deductionTotal: netView ? withholding.tax - withholding.total : undefined,
+      payslipDifference: payslipCheck && !payslipCheck.matches ? payslipCheck.grossDifference : undefined,
+      payoutDate: byPayout ? formatDateKey(toDateKey(getPayoutDate(monthPay.year, monthPay.month, payPeriods))) : undefined,
+      baseRates: monthPay.baseRates,
+      total: monthPay.total,
+      earned: monthPay.earned,
+      projected: monthPay.projected
     };
-  }), [selectedYear, workedDays, shiftTypes, baseRate]);
+  }), [selectedYear, selectedYearPay, netView, taxSettings, deductions, payslipChecks, byPayout, payPeriods, language]);
 
-  // Memoize yearly earnings calculation
-  const yearlyEarnings = useMemo(() => 
-    calculateYearlyEarnings(selectedYear),
-    [selectedYear, workedDays, shiftTypes, baseRate]
+  const absenceCounters = useMemo(
+    () => getAbsenceCounters(workedDays, visibleShiftTypes, selectedYear, vacationDays),
+    [workedDays, visibleShiftTypes, selectedYear, vacationDays]
   );
 
-  // Memoize monthly earnings calculation
-  const monthlyEarnings = useMemo(() => 
-    calculateMonthlyEarnings(selectedYear, selectedMonth),
-    [selectedYear, selectedMonth, workedDays, shiftTypes, baseRate]
-  );
+  const selectedMonthPay = selectedYearPay.months[selectedMonth];
+  const yearlyWithholding = selectedYearPay.months.map(getWithholding);
+  const yearlyTax = yearlyWithholding.reduce((sum, withholding) => sum + withholding.tax, 0);
+  const yearlyDeductions = yearlyWithholding.reduce((sum, withholding) => sum + withholding.total - withholding.tax, 0);
+  const monthlyWithholding = yearlyWithholding[selectedMonth];
+  // What is left of each gross krone in the net view
+  const yearlyNetShare = netView && selectedYearPay.total > 0 ? 1 - (yearlyTax + yearlyDeductions) / selectedYearPay.total : 1;
+  const monthlyNetShare = netView ? getNetShare(selectedMonthPay, monthlyWithholding) : 1;
+  const yearlyEarnings = selectedYearPay.total * yearlyNetShare;
+  const selectedMonthHolidayPay = selectedMonthPay.holidayPay;
+  const yearlySalary = selectedYearPay.months.reduce((sum, monthPay) => sum + (monthPay.salary || 0), 0);
+  // Payslips are entered per job, like rate changes
+  const selectedPayslip = payslips.find(p =>
+    getJobId(p) === editJob.id && p.year === selectedYear && p.month === selectedMonth);
+  const monthlyEarnings = selectedMonthPay.total * monthlyNetShare;
 
   // Add a helper function for display label
   const getDisplayLabel = (shift: ShiftConfig, language: 'en' | 'no') => {
@@ -381,9 +1028,25 @@ const Dashboard: React.FC = () => {
             borderRadius: 1
           }}
         >
-          <Typography sx={{ color: '#fff', mb: 1, fontWeight: 500 }}>{label}</Typography>
+          <Typography sx={{ color: '#fff', mb: 1, fontWeight: 500 }}>
+            {label}{data.payoutDate && ` · ${t.paidOn} ${data.payoutDate}`}
+          </Typography>
+          {data.salary !== undefined && (
+            <Typography
+              sx={{
+                color: SALARY_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.salary}</span>
+              <span>{formatAmount(data.salary, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
           {Object.entries(data.shiftData).map(([shiftType, { earnings, days }]) => {
-            const shift = shiftTypes.find(s => s.type === shiftType);
+            const shift = visibleShiftTypes.find(s => s.type === shiftType);
             if (shift && earnings > 0) {
               return (
                 <Typography
@@ -403,6 +1066,125 @@ const Dashboard: React.FC = () => {
             }
             return null;
           })}
+          {Object.entries(data.premiumData).map(([windowId, premium]) => (
+            <Typography
+              key={windowId}
+              sx={{
+                color: getPremiumColor(windowId),
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{premium.name} ({premium.hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { maximumFractionDigits: 1 })} {language === 'no' ? 't' : 'h'})</span>
+              <span>{formatAmount(premium.amount, { isYAxisLabel: true })}</span>
+            </Typography>
+          ))}
+          {data.statutoryOvertime && (
+            <Typography
+              sx={{
+                color: STATUTORY_OVERTIME_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.statutoryOvertime} ({data.statutoryOvertime.hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { maximumFractionDigits: 2 })} {language === 'no' ? 't' : 'h'})</span>
+              <span>{formatAmount(data.statutoryOvertime.amount, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
+          {SUPPLEMENT_KINDS.map(kind => {
+            const supplement = data.supplementData[kind];
+            if (!supplement || supplement.amount <= 0) return null;
+            return (
+              <Typography
+                key={kind}
+                sx={{
+                  color: SUPPLEMENT_COLORS[kind],
+                  fontSize: '0.875rem',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  gap: 2
+                }}
+              >
+                <span>{t.supplementLabels[kind]} ({supplement.days})</span>
+                <span>{formatAmount(supplement.amount, { isYAxisLabel: true })}</span>
+              </Typography>
+            );
+          })}
+          {data.holidayPay && (
+            <Typography
+              sx={{
+                color: HOLIDAY_PAY_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.holidayPay} {data.holidayPay.basisYear} ({data.holidayPay.rate}%)</span>
+              <span>{formatAmount(data.holidayPay.amount, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
+          {data.holidayPay && data.holidayPay.deduction > 0 && (
+            <Typography
+              sx={{
+                color: VACATION_DEDUCTION_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.vacationDeduction} ({data.holidayPay.deductionDays})</span>
+              <span>-{formatAmount(data.holidayPay.deduction, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
+          {data.tax !== undefined && data.tax < 0 && (
+            <Typography
+              sx={{
+                color: TAX_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.tax}</span>
+              <span>-{formatAmount(-data.tax, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
+          {data.deductions?.map(deduction => (
+            <Typography
+              key={deduction.id}
+              sx={{
+                color: DEDUCTION_COLOR,
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{deduction.name}</span>
+              <span>-{formatAmount(deduction.amount, { isYAxisLabel: true })}</span>
+            </Typography>
+          ))}
+          {data.projected > 0 && (
+            <Typography
+              sx={{
+                color: 'rgba(255, 255, 255, 0.6)',
+                fontSize: '0.875rem',
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 2
+              }}
+            >
+              <span>{t.projected}</span>
+              <span>{formatAmount(data.projected, { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
           {totalEarnings > 0 && (
             <Typography
               sx={{
@@ -416,10 +1198,18 @@ const Dashboard: React.FC = () => {
                 fontWeight: 500
               }}
             >
-              <span>Total</span>
-              <span>{formatAmount(totalEarnings, { isYAxisLabel: true })}</span>
+              <span>{data.tax !== undefined ? `${t.net} (${t.gross} ${formatAmount(totalEarnings, { isYAxisLabel: true })})` : 'Total'}</span>
+              <span>{formatAmount(totalEarnings + (data.tax || 0) + (data.deductionTotal || 0), { isYAxisLabel: true })}</span>
+            </Typography>
+          )}
+          {data.payslipDifference !== undefined && (
+            <Typography sx={{ color: '#ff5252', fontSize: '0.875rem', mt: 0.5 }}>
+              ⚠ {t.payslipDifference} {data.payslipDifference > 0 ? '+' : '-'}{formatAmount(Math.abs(data.payslipDifference), { isYAxisLabel: true })}
             </Typography>
           )}
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.8rem', mt: 0.5 }}>
+            {t.baseRateUsed}: {data.baseRates.map(rate => formatAmount(rate)).join(' / ')}
+          </Typography>
         </Box>
       );
     }
@@ -431,7 +1221,7 @@ const Dashboard: React.FC = () => {
 
   const formatLegendText = (value: any, _entry: any) => {
     // Find the shift type from the current value
-    const shift = shiftTypes.find(s => {
+    const shift = visibleShiftTypes.find(s => {
       if (language === 'no') return s.label === value;
       return (s.labelEn || s.label) === value;
     });
@@ -456,6 +1246,9 @@ const Dashboard: React.FC = () => {
     workTime: string;
     hours: string;
     earnings: string;
+    // Only with a tax estimate
+    tax?: string;
+    net?: string;
   }
 
   // Helper to get shift label without emoji for CSV
@@ -477,392 +1270,347 @@ const Dashboard: React.FC = () => {
     return shift.label.replace(/[^\u0000-\u007f]+/g, '').trim();
   };
 
+  // Format an amount for CSV output, without currency
+  const formatCsvNumber = (amount: number, language: 'en' | 'no'): string => {
+    if (language === 'en') {
+      // English: show decimals only if needed, use space as thousands separator, comma as decimal
+      if (Number.isInteger(amount)) {
+        return amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
+      }
+      return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
+    }
+    return amount.toLocaleString('nb-NO').replace(/\s/g, ' ');
+  };
+
+  const withCsvCurrency = (amount: string): string =>
+    viewCurrency.position === 'before'
+      ? `${viewCurrency.currency}${amount}`
+      : `${amount} ${viewCurrency.currency}`;
+
   // Generate CSV download data
   const generateDownloadData = (
-    year: number,
+    yearPay: YearPay,
     month: number | null,
-    language: 'en' | 'no',
-    shiftTypes: ShiftConfig[],
-    baseRate: number,
-    getWorkedDaysForMonth: (year: number, month: number) => { [key: number]: string }
+    language: 'en' | 'no'
   ): DownloadRow[] => {
-    const rows: DownloadRow[] = [];
-    const monthStart = month !== null ? month : 0;
-    const monthEnd = month !== null ? month : 11;
-
-    for (let m = monthStart; m <= monthEnd; m++) {
-      const daysInMonth = new Date(year, m + 1, 0).getDate();
-      const monthData = getWorkedDaysForMonth(year, m);
-
-      for (let day = 1; day <= daysInMonth; day++) {
-        const shiftType = monthData[day];
-        if (!shiftType) continue;
-
-        const shift = shiftTypes.find(s => s.type === shiftType);
-        if (!shift) continue;
-
-        const date = new Date(year, m, day);
-        const basePayForShift = baseRate * shift.hours;
-        const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-        const dailyEarnings = basePayForShift * (1 + overtimeRate);
-        const formattedDate = `${String(m + 1).padStart(2, '0')}/${String(day).padStart(2, '0')}/${year}`;
-        const weekday = date.toLocaleDateString('en-US', { weekday: 'short' });
-        const shiftLabel = getShiftLabel(shift, language);
-        const workTime = shift.startTime && shift.endTime ? `${shift.startTime}-${shift.endTime}` : 'undefined-undefined';
-        const hours = shift.hours.toString();
-        let earnings = '';
-        if (language === 'en') {
-          const earningsNum = parseFloat(dailyEarnings.toString().replace(/ /g, '').replace(',', '.'));
-          if (!isNaN(earningsNum)) {
-            if (Number.isInteger(earningsNum)) {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-            } else {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-            }
-          }
+    const months = month !== null ? [yearPay.months[month]] : yearPay.months;
+    return months.flatMap(monthPay => {
+      // What a month withholds is spread over its days in proportion to their pay
+      const withholding = getWithholding(monthPay);
+      const shares = hasNetPay
+        ? { tax: monthPay.total > 0 ? withholding.tax / monthPay.total : 0, net: getNetShare(monthPay, withholding) }
+        : undefined;
+      return monthPay.days.map(dayPay => toDownloadRow(dayPay, language, shares));
+    });
+  };
+
+  const toDownloadRow = (dayPay: DayPay, language: 'en' | 'no', shares?: { tax: number; net: number }): DownloadRow => {
+    const { year, month, day, shift } = dayPay;
+    const date = new Date(year, month, day);
+    // The times actually worked; entries without times leave the cell empty
+    const { startTime, endTime } = resolveWorkDayShift(shift, dayPay.times);
+    return {
+      date: `${String(month + 1).padStart(2, '0')}/${String(day).padStart(2, '0')}/${year}`,
+      dayOfWeek: date.toLocaleDateString('en-US', { weekday: 'short' }),
+      shiftLabel: isAdditionsPart(dayPay) ? `${getShiftLabel(shift, language)} (${t.additions})` : getShiftLabel(shift, language),
+      workTime: startTime && endTime ? `${startTime}-${endTime}` : '',
+      hours: dayPay.hours.toString(),
+      earnings: formatCsvNumber(dayPay.earnings, language),
+      ...(shares ? {
+        tax: formatCsvNumber(shares.tax > 0 ? -dayPay.earnings * shares.tax : 0, language),
+        net: formatCsvNumber(dayPay.earnings * shares.net, language)
+      } : {})
+    };
+  };
+
+  // Build the localized day rows of a month's CSV block. With net pay, a tax
+  // column (when tax is estimated) and a net column follow the earnings.
+  const buildMonthCsvRows = (rows: DownloadRow[], withNet = false): string[][] => [
+    [
+      ...(language === 'no' ? CSV_HEADERS_NO : CSV_HEADERS),
+      ...(withNet && taxSettings.enabled ? [t.tax] : []),
+      ...(withNet ? [t.net] : [])
+    ],
+    ...rows.map(row => {
+      // Convert date from MM/DD/YYYY to DD.MM.YYYY for no, else keep as is
+      let date = row.date;
+      if (language === 'no') {
+        const [mm, dd, yyyy] = row.date.split('/');
+        date = `${dd.padStart(2, '0')}.${mm.padStart(2, '0')}.${yyyy}`;
+      }
+      // Day of week
+      let dayOfWeek = row.dayOfWeek;
+      if (language === 'no') {
+        const dayOfWeekMap: Record<string, string> = {
+          'Mon': 'Man', 'Tue': 'Tir', 'Wed': 'Ons', 'Thu': 'Tor', 'Fri': 'Fre', 'Sat': 'Lør', 'Sun': 'Søn',
+        };
+        if (Object.prototype.hasOwnProperty.call(dayOfWeekMap, dayOfWeek)) {
+          dayOfWeek = dayOfWeekMap[dayOfWeek as keyof typeof dayOfWeekMap];
+        }
+      }
+      return [
+        date, dayOfWeek, row.shiftLabel, row.workTime, row.hours, withCsvCurrency(row.earnings),
+        ...(withNet && taxSettings.enabled ? [withCsvCurrency(row.tax || '0')] : []),
+        ...(withNet ? [withCsvCurrency(row.net || '0')] : [])
+      ];
+    })
+  ];
+
+  // Build the localized per-shift-type summary of a month's CSV block
+  const buildMonthSummaryRows = (monthPay: MonthPay, monthName: string): string[] => {
+    const { shiftData } = monthPay;
+    const shiftTypeOrder = ['day', 'overtime', 'evening', 'night'];
+    const shiftTypeLabelsNo: { [key: string]: string } = {
+      day: 'Dag skift',
+      overtime: 'Overtid',
+      evening: 'Kvelds skift',
+      night: 'Natt skift',
+    };
+    const shiftTypeLabelsEn: { [key: string]: string } = {
+      day: 'Day shift',
+      overtime: 'Overtime',
+      evening: 'Evening shift',
+      night: 'Night shift',
+    };
+    const shiftTypeLabels: { [key: string]: string } = language === 'no' ? { ...shiftTypeLabelsNo } : { ...shiftTypeLabelsEn };
+    Object.keys(shiftData).forEach(type => {
+      if (!Object.prototype.hasOwnProperty.call(shiftTypeLabels, type)) shiftTypeLabels[type] = type;
+    });
+    const summaryRows: string[] = [];
+    summaryRows.push('');
+    if (language === 'no') {
+      summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Oversikt|Vaktype|Antall timer|Beløp`);
+    } else {
+      summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Overview|Shift Type|Total Hours|Amount`);
+    }
+    shiftTypeOrder.concat(Object.keys(shiftData).filter(t => !shiftTypeOrder.includes(t))).forEach(type => {
+      if (shiftData[type]) {
+        const hours = shiftData[type].hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+        const earnings = withCsvCurrency(formatCsvNumber(shiftData[type].earnings, language));
+        const overtime = shiftData[type].overtimeMultiplier;
+        let label = shiftTypeLabels[type];
+        if (overtime > 0) {
+          label += ` (${overtime}%)`;
+        } else if (type === 'day') {
+          label += ' (No OT)';
+        }
+        if (language === 'no') {
+          summaryRows.push(`${label}|${hours} timer|${earnings}`);
         } else {
-          earnings = dailyEarnings.toLocaleString('nb-NO').replace(/\s/g, ' ');
+          summaryRows.push(`${label}|${hours} hours|${earnings}`);
         }
-        rows.push({
-          date: formattedDate,
-          dayOfWeek: weekday,
-          shiftLabel,
-          workTime,
-          hours,
-          earnings
-        });
       }
+    });
+    Object.entries(monthPay.premiumData).forEach(([windowId, premium]) => {
+      const window = premiumWindows.find(w => w.id === windowId);
+      const label = window ? `${premium.name} (${window.start}-${window.end})` : premium.name;
+      const hours = premium.hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+      const amount = withCsvCurrency(formatCsvNumber(premium.amount, language));
+      summaryRows.push(`${label}|${hours} ${language === 'no' ? 'timer' : 'hours'}|${amount}`);
+    });
+    if (monthPay.statutoryOvertime) {
+      const hours = monthPay.statutoryOvertime.hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 2 });
+      const amount = withCsvCurrency(formatCsvNumber(monthPay.statutoryOvertime.amount, language));
+      summaryRows.push(`${t.statutoryOvertime} (${overtimeRules.rate}%)|${hours} ${language === 'no' ? 'timer' : 'hours'}|${amount}`);
+    }
+    SUPPLEMENT_KINDS.forEach(kind => {
+      const supplement = monthPay.supplementData[kind];
+      if (!supplement) return;
+      const hours = supplement.hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+      const amount = withCsvCurrency(formatCsvNumber(supplement.amount, language));
+      summaryRows.push(`${t.supplementLabels[kind]}|${hours} ${language === 'no' ? 'timer' : 'hours'}|${amount}`);
+    });
+    if (monthPay.salary !== undefined) {
+      summaryRows.push(`${t.salary}||${withCsvCurrency(formatCsvNumber(monthPay.salary, language))}`);
+    }
+    if (monthPay.holidayPay) {
+      const { basisYear, rate, amount, deductionDays, deduction } = monthPay.holidayPay;
+      summaryRows.push(`${t.holidayPay} ${basisYear} (${rate}%)||${withCsvCurrency(formatCsvNumber(amount, language))}`);
+      if (deduction > 0) {
+        summaryRows.push(`${t.vacationDeduction}|${deductionDays} ${language === 'no' ? 'dager' : 'days'}|${withCsvCurrency(formatCsvNumber(-deduction, language))}`);
+      }
+    }
+    const rates = monthPay.baseRates.map(rate => withCsvCurrency(formatCsvNumber(rate, language))).join(' / ');
+    summaryRows.push(`${t.baseRateUsed}|${rates} ${language === 'no' ? 'per time' : 'per hour'}`);
+    const totalEarningsStr = withCsvCurrency(formatCsvNumber(monthPay.total, language));
+    summaryRows.push(`${language === 'no' ? 'Totalt' : 'Total'}: ${totalEarningsStr}`.trim());
+    if (hasNetPay) {
+      const withholding = getWithholding(monthPay);
+      if (taxSettings.enabled) {
+        summaryRows.push(`${t.tax}: ${withCsvCurrency(formatCsvNumber(withholding.tax > 0 ? -withholding.tax : 0, language))}`);
+      }
+      withholding.deductions.forEach(deduction => {
+        summaryRows.push(`${deduction.name}: ${withCsvCurrency(formatCsvNumber(-deduction.amount, language))}`);
+      });
+      summaryRows.push(`${t.net}: ${withCsvCurrency(formatCsvNumber(withholding.net, language))}`);
     }
-    return rows;
+    return summaryRows;
   };
 
   const handleYearlyDownload = (year: number) => {
+    loadYears([year - 1, year, year + 1]).then(days => downloadYear(year, days)).catch(reportWorkDayError);
+  };
+
+  const downloadYear = (year: number, days: WorkedDays) => {
+    const workYearPay = calculateViewYearPay(year, days);
+    const yearPay = byPayout ? toPayoutYearPay(workYearPay, days) : workYearPay;
     if (language === 'no' || language === 'en') {
       let allMonthsContent: string[] = [];
-      let yearlyTotal = 0;
       for (let month = 0; month < 12; month++) {
-        const rows = generateDownloadData(year, month, language, shiftTypes, baseRate, getWorkedDaysForMonth);
-        const monthName = getMonthName(month);
-        // Build summary for this month
-        const monthWorkedDays = getWorkedDaysForMonth(year, month);
-        // Skip months with no work days
-        if (Object.keys(monthWorkedDays).length === 0) {
+        const monthPay = yearPay.months[month];
+        // Skip months with no work days, holiday pay or salary
+        if (monthPay.days.length === 0 && !monthPay.holidayPay && monthPay.salary === undefined) {
           continue;
         }
-        const shiftSummary: { [shiftType: string]: { hours: number; earnings: number, overtime: number } } = {};
-        let totalEarnings = 0;
-        Object.entries(monthWorkedDays).forEach(([_, shiftType]) => {
-          const shift = shiftTypes.find(s => s.type === shiftType);
-          if (!shift) return;
-          const basePayForShift = baseRate * shift.hours;
-          const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-          const dailyEarnings = basePayForShift * (1 + overtimeRate);
-          if (!shiftSummary[shiftType]) {
-            shiftSummary[shiftType] = { hours: 0, earnings: 0, overtime: shift.overtimeMultiplier };
-          }
-          shiftSummary[shiftType].hours += shift.hours;
-          shiftSummary[shiftType].earnings += dailyEarnings;
-          totalEarnings += dailyEarnings;
-        });
-        yearlyTotal += totalEarnings;
-        // Prepare summary lines
-        const shiftTypeOrder = ['day', 'overtime', 'evening', 'night'];
-        const shiftTypeLabelsNo: { [key: string]: string } = {
-          day: 'Dag skift',
-          overtime: 'Overtid',
-          evening: 'Kvelds skift',
-          night: 'Natt skift',
-        };
-        const shiftTypeLabelsEn: { [key: string]: string } = {
-          day: 'Day shift',
-          overtime: 'Overtime',
-          evening: 'Evening shift',
-          night: 'Night shift',
-        };
-        const shiftTypeLabels: { [key: string]: string } = language === 'no' ? { ...shiftTypeLabelsNo } : { ...shiftTypeLabelsEn };
-        Object.keys(shiftSummary).forEach(type => {
-          if (!Object.prototype.hasOwnProperty.call(shiftTypeLabels, type)) shiftTypeLabels[type] = type;
-        });
-        const summaryRows: string[] = [];
-        summaryRows.push('');
-        if (language === 'no') {
-          summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Oversikt|Vaktype|Antall timer|Beløp`);
-        } else {
-          summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Overview|Shift Type|Total Hours|Amount`);
-        }
-        shiftTypeOrder.concat(Object.keys(shiftSummary).filter(t => !shiftTypeOrder.includes(t))).forEach(type => {
-          if (shiftSummary[type]) {
-            const hours = shiftSummary[type].hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
-            let earningsNum = shiftSummary[type].earnings;
-            let earnings = '';
-            if (language === 'en') {
-              // English: show decimals only if needed, use space as thousands separator, comma as decimal
-              if (Number.isInteger(earningsNum)) {
-                earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-              } else {
-                earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-              }
-            } else {
-              earnings = earningsNum.toLocaleString('nb-NO').replace(/\s/g, ' ');
-            }
-            const overtime = shiftSummary[type].overtime;
-            let label = shiftTypeLabels[type];
-            if (typeof overtime === 'number') {
-              if (overtime > 0) {
-                label += ` (${overtime}%)`;
-              } else if (type === 'day') {
-                label += language === 'no' ? ' (No OT)' : ' (No OT)';
-              }
-            }
-            if (currencyConfig.position === 'before') {
-              earnings = `${currencyConfig.currency}${earnings}`;
-            } else {
-              earnings = `${earnings} ${currencyConfig.currency}`;
-            }
-            if (language === 'no') {
-              summaryRows.push(`${label}|${hours} timer|${earnings}`);
-            } else {
-              summaryRows.push(`${label}|${hours} hours|${earnings}`);
-            }
-          }
-        });
-        let totalEarningsStr = totalEarnings.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US').replace(/\s/g, ' ');
-        if (language === 'en') {
-          if (Number.isInteger(totalEarnings)) {
-            totalEarningsStr = totalEarnings.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-          } else {
-            totalEarningsStr = totalEarnings.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-          }
-        }
-        if (language === 'no') {
-          summaryRows.push(`Totalt: ${currencyConfig.position === 'before' ? currencyConfig.currency + totalEarningsStr : totalEarningsStr + ' ' + currencyConfig.currency}`.trim());
-        } else {
-          summaryRows.push(`Total: ${currencyConfig.position === 'before' ? currencyConfig.currency + totalEarningsStr : totalEarningsStr + ' ' + currencyConfig.currency}`.trim());
-        }
+        const rows = generateDownloadData(yearPay, month, language);
+        const summaryRows = buildMonthSummaryRows(monthPay, getMonthName(month));
         // Build CSV content for this month
-        const csvRows = [(language === 'no' ? CSV_HEADERS_NO : CSV_HEADERS), ...rows.map(row => {
-          let date = row.date;
-          if (language === 'no') {
-            const [mm, dd, yyyy] = row.date.split('/');
-            date = `${dd.padStart(2, '0')}.${mm.padStart(2, '0')}.${yyyy}`;
-          }
-          let workTime = row.workTime;
-          if (workTime === 'undefined-undefined') {
-            workTime = language === 'no' ? 'ikke definert - ikke definert' : 'not defined - not defined';
-          }
-          let earnings = row.earnings.replace(/kr|NOK|USD|\$/g, '').trim();
-          if (language === 'en') {
-            const earningsNum = parseFloat(earnings.replace(/ /g, '').replace(',', '.'));
-            if (!isNaN(earningsNum)) {
-              if (Number.isInteger(earningsNum)) {
-                earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-              } else {
-                earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-              }
-            }
-          }
-          if (currencyConfig.position === 'before') {
-            earnings = `${currencyConfig.currency}${earnings}`;
-          } else {
-            earnings = `${earnings} ${currencyConfig.currency}`;
-          }
-          let dayOfWeek = row.dayOfWeek;
-          if (language === 'no') {
-            const dayOfWeekMap: Record<string, string> = {
-              'Mon': 'Man', 'Tue': 'Tir', 'Wed': 'Ons', 'Thu': 'Tor', 'Fri': 'Fre', 'Sat': 'Lør', 'Sun': 'Søn',
-            };
-            if (Object.prototype.hasOwnProperty.call(dayOfWeekMap, dayOfWeek)) {
-              dayOfWeek = dayOfWeekMap[dayOfWeek as keyof typeof dayOfWeekMap];
-            }
-          }
-          return [date, dayOfWeek, row.shiftLabel, workTime, row.hours, earnings];
-        })];
+        const csvRows = buildMonthCsvRows(rows, hasNetPay);
         allMonthsContent.push(csvRows.map(row => row.join('|')).join('\n') + '\n' + summaryRows.join('\n'));
       }
       // 2 blank lines between each month, 3 after last
       const BOM = '\uFEFF';
-      let yearlyTotalStr = yearlyTotal.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US').replace(/\s/g, ' ');
-      if (language === 'en') {
-        if (Number.isInteger(yearlyTotal)) {
-          yearlyTotalStr = yearlyTotal.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-        } else {
-          yearlyTotalStr = yearlyTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-        }
-      }
+      const yearlyTotalStr = withCsvCurrency(formatCsvNumber(yearPay.total, language));
       let yearSummary = '';
       if (language === 'no') {
-        yearSummary = `${'\n'.repeat(3)}Totale inntekter hele året (${year}): ${currencyConfig.position === 'before' ? currencyConfig.currency + yearlyTotalStr : yearlyTotalStr + ' ' + currencyConfig.currency}`.trim();
+        yearSummary = `${'\n'.repeat(3)}Totale inntekter hele året (${year}): ${yearlyTotalStr}`.trim();
       } else {
-        yearSummary = `${'\n'.repeat(3)}Total earnings for the year (${year}): ${currencyConfig.position === 'before' ? currencyConfig.currency + yearlyTotalStr : yearlyTotalStr + ' ' + currencyConfig.currency}`.trim();
+        yearSummary = `${'\n'.repeat(3)}Total earnings for the year (${year}): ${yearlyTotalStr}`.trim();
+      }
+      if (hasNetPay) {
+        const withholding = yearPay.months.map(getWithholding);
+        const yearlyTax = withholding.reduce((sum, month) => sum + month.tax, 0);
+        if (taxSettings.enabled) {
+          yearSummary += `\n${t.tax}: ${withCsvCurrency(formatCsvNumber(yearlyTax > 0 ? -yearlyTax : 0, language))}`;
+        }
+        deductions.forEach(deduction => {
+          const amount = withholding.reduce((sum, month) =>
+            sum + (month.deductions.find(d => d.id === deduction.id)?.amount || 0), 0);
+          if (amount > 0) yearSummary += `\n${deduction.name}: ${withCsvCurrency(formatCsvNumber(-amount, language))}`;
+        });
+        const yearlyNet = withholding.reduce((sum, month) => sum + month.net, 0);
+        yearSummary += `\n${t.net}: ${withCsvCurrency(formatCsvNumber(yearlyNet, language))}`;
       }
       const csvContent = BOM + allMonthsContent.join('\n\n') + '\n\n\n' + yearSummary;
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `earnings_${year}_${language === 'no' ? 'NOK' : 'USD'}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadFile(csvContent, `earnings_${year}_${language === 'no' ? 'NOK' : 'USD'}.csv`);
     } else {
-    const rows = generateDownloadData(year, null, language, shiftTypes, baseRate, getWorkedDaysForMonth);
+      const rows = generateDownloadData(yearPay, null, language);
       downloadCSV(rows, CSV_HEADERS, `earnings_${year}_USD.csv`);
     }
   };
 
   const handleMonthlyDownload = (month: number) => {
-    const rows = generateDownloadData(selectedYear, month, language, shiftTypes, baseRate, getWorkedDaysForMonth);
+    const rows = generateDownloadData(selectedYearPay, month, language);
     const monthName = getMonthName(month);
     if (language === 'no' || language === 'en') {
       // Build summary (localized)
-      const monthWorkedDays = getWorkedDaysForMonth(selectedYear, month);
-      const shiftSummary: { [shiftType: string]: { hours: number; earnings: number, overtime: number } } = {};
-      let totalEarnings = 0;
-      Object.entries(monthWorkedDays).forEach(([_, shiftType]) => {
-        const shift = shiftTypes.find(s => s.type === shiftType);
-        if (!shift) return;
-        const basePayForShift = baseRate * shift.hours;
-        const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
-        const dailyEarnings = basePayForShift * (1 + overtimeRate);
-        if (!shiftSummary[shiftType]) {
-          shiftSummary[shiftType] = { hours: 0, earnings: 0, overtime: shift.overtimeMultiplier };
-        }
-        shiftSummary[shiftType].hours += shift.hours;
-        shiftSummary[shiftType].earnings += dailyEarnings;
-        totalEarnings += dailyEarnings;
-      });
-      // Prepare summary lines
-      const shiftTypeOrder = ['day', 'overtime', 'evening', 'night'];
-      const shiftTypeLabelsNo: { [key: string]: string } = {
-        day: 'Dag skift',
-        overtime: 'Overtid',
-        evening: 'Kvelds skift',
-        night: 'Natt skift',
-      };
-      const shiftTypeLabelsEn: { [key: string]: string } = {
-        day: 'Day shift',
-        overtime: 'Overtime',
-        evening: 'Evening shift',
-        night: 'Night shift',
-      };
-      const shiftTypeLabels: { [key: string]: string } = language === 'no' ? { ...shiftTypeLabelsNo } : { ...shiftTypeLabelsEn };
-      Object.keys(shiftSummary).forEach(type => {
-        if (!Object.prototype.hasOwnProperty.call(shiftTypeLabels, type)) shiftTypeLabels[type] = type;
-      });
-      const summaryRows: string[] = [];
-      summaryRows.push('');
-      if (language === 'no') {
-        summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Oversikt|Vaktype|Antall timer|Beløp`);
-      } else {
-        summaryRows.push(`${monthName.charAt(0).toUpperCase() + monthName.slice(1)} Overview|Shift Type|Total Hours|Amount`);
-      }
-      shiftTypeOrder.concat(Object.keys(shiftSummary).filter(t => !shiftTypeOrder.includes(t))).forEach(type => {
-        if (shiftSummary[type]) {
-          const hours = shiftSummary[type].hours.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
-          let earningsNum = shiftSummary[type].earnings;
-          let earnings = '';
-          if (language === 'en') {
-            // English: show decimals only if needed, use space as thousands separator, comma as decimal
-            if (Number.isInteger(earningsNum)) {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-            } else {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-            }
-          } else {
-            earnings = earningsNum.toLocaleString('nb-NO').replace(/\s/g, ' ');
-          }
-          const overtime = shiftSummary[type].overtime;
-          let label = shiftTypeLabels[type];
-          if (typeof overtime === 'number') {
-            if (overtime > 0) {
-              label += ` (${overtime}%)`;
-            } else if (type === 'day') {
-              label += language === 'no' ? ' (No OT)' : ' (No OT)';
-            }
-          }
-          if (currencyConfig.position === 'before') {
-            earnings = `${currencyConfig.currency}${earnings}`;
-          } else {
-            earnings = `${earnings} ${currencyConfig.currency}`;
-          }
-          if (language === 'no') {
-            summaryRows.push(`${label}|${hours} timer|${earnings}`);
-          } else {
-            summaryRows.push(`${label}|${hours} hours|${earnings}`);
-          }
-        }
-      });
-      let totalEarningsStr = totalEarnings.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US').replace(/\s/g, ' ');
-      if (language === 'en') {
-        if (Number.isInteger(totalEarnings)) {
-          totalEarningsStr = totalEarnings.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-        } else {
-          totalEarningsStr = totalEarnings.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-        }
-      }
-      if (language === 'no') {
-        summaryRows.push(`Totalt: ${currencyConfig.position === 'before' ? currencyConfig.currency + totalEarningsStr : totalEarningsStr + ' ' + currencyConfig.currency}`.trim());
-      } else {
-        summaryRows.push(`Total: ${currencyConfig.position === 'before' ? currencyConfig.currency + totalEarningsStr : totalEarningsStr + ' ' + currencyConfig.currency}`.trim());
-      }
+      const summaryRows = buildMonthSummaryRows(selectedYearPay.months[month], monthName);
       // Build CSV content with localized date, day, and work time fallback
-      const csvRows = [(language === 'no' ? CSV_HEADERS_NO : CSV_HEADERS), ...rows.map(row => {
-        // Convert date from MM/DD/YYYY to DD.MM.YYYY for no, else keep as is
-        let date = row.date;
-        if (language === 'no') {
-          const [mm, dd, yyyy] = row.date.split('/');
-          date = `${dd.padStart(2, '0')}.${mm.padStart(2, '0')}.${yyyy}`;
-        }
-        let workTime = row.workTime;
-        if (workTime === 'undefined-undefined') {
-          workTime = language === 'no' ? 'ikke definert - ikke definert' : 'not defined - not defined';
-        }
-        // Replace currency in daily earnings
-        let earnings = row.earnings.replace(/kr|NOK|USD|\$/g, '').trim();
-        if (language === 'en') {
-          const earningsNum = parseFloat(earnings.replace(/ /g, '').replace(',', '.'));
-          if (!isNaN(earningsNum)) {
-            if (Number.isInteger(earningsNum)) {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).replace(/,/g, ' ');
-            } else {
-              earnings = earningsNum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, ' ').replace(/\./, ',');
-            }
-          }
-        }
-        if (currencyConfig.position === 'before') {
-          earnings = `${currencyConfig.currency}${earnings}`;
-        } else {
-          earnings = `${earnings} ${currencyConfig.currency}`;
-        }
-        // Day of week
-        let dayOfWeek = row.dayOfWeek;
-        if (language === 'no') {
-          const dayOfWeekMap: Record<string, string> = {
-            'Mon': 'Man', 'Tue': 'Tir', 'Wed': 'Ons', 'Thu': 'Tor', 'Fri': 'Fre', 'Sat': 'Lør', 'Sun': 'Søn',
-          };
-          if (Object.prototype.hasOwnProperty.call(dayOfWeekMap, dayOfWeek)) {
-            dayOfWeek = dayOfWeekMap[dayOfWeek as keyof typeof dayOfWeekMap];
-          }
-        }
-        return [date, dayOfWeek, row.shiftLabel, workTime, row.hours, earnings];
-      })];
+      const csvRows = buildMonthCsvRows(rows, hasNetPay);
       const csvContent = csvRows.map(row => row.join('|')).join('\n') + '\n' + summaryRows.join('\n');
       const BOM = '\uFEFF';
-      const blob = new Blob([BOM + csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `earnings_${monthName}_${selectedYear}_${language === 'no' ? 'NOK' : 'USD'}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadFile(BOM + csvContent, `earnings_${monthName}_${selectedYear}_${language === 'no' ? 'NOK' : 'USD'}.csv`);
     } else {
       downloadCSV(rows, CSV_HEADERS, `earnings_${monthName}_${selectedYear}_USD.csv`);
     }
   };
 
+  const handlePayslipChange = (values?: { gross: number; net?: number }) => {
+    setPayslips(prev => [
+      ...prev.filter(p => getJobId(p) !== editJob.id || p.year !== selectedYear || p.month !== selectedMonth),
+      ...(values ? [{ jobId: editJob.id, year: selectedYear, month: selectedMonth, ...values }] : [])
+    ]);
+  };
+
+  // Reconciliation report: each month with a payslip, what was calculated,
+  // what was paid and the shift types that likely explain a difference
+  const handleReconciliationDownload = () => {
+    const no = language === 'no';
+    const money = (amount: number) => withCsvCurrency(formatCsvNumber(amount, language));
+    const withNet = payslipChecks.some(check => check.netDifference !== undefined);
+    const headers = [
+      no ? 'Måned' : 'Month',
+      no ? 'Beregnet brutto' : 'Calculated gross',
+      no ? 'Utbetalt brutto' : 'Paid gross',
+      no ? 'Differanse' : 'Difference',
+      ...(withNet ? [no ? 'Beregnet netto' : 'Calculated net', no ? 'Utbetalt netto' : 'Paid net', no ? 'Differanse netto' : 'Net difference'] : []),
+      no ? 'Trolig årsak' : 'Likely cause'
+    ];
+    const rows = payslipChecks.map(check => {
+      const likely = check.breakdown
+        .filter(difference => difference.likely)
+        .map(difference => {
+          const shift = visibleShiftTypes.find(s => s.type === difference.shiftType);
+          return `${shift ? getShiftLabel(shift, language) : difference.shiftType} ${Math.round(difference.shifts) > 0 ? '+' : ''}${Math.round(difference.shifts)} ${no ? 'vakter' : 'shifts'}`;
+        })
+        .join(', ');
+      return [
+        getMonthName(check.payslip.month),
+        money(check.expectedGross),
+        money(check.payslip.gross),
+        money(check.grossDifference),
+        ...(withNet ? [
+          check.expectedNet !== undefined ? money(check.expectedNet) : '',
+          check.payslip.net !== undefined ? money(check.payslip.net) : '',
+          check.netDifference !== undefined ? money(check.netDifference) : ''
+        ] : []),
+        check.matches ? (no ? 'Stemmer' : 'Matches') : likely
+      ];
+    });
+    const total = payslipChecks.reduce((sum, check) => sum + check.grossDifference, 0);
+    const content = [
+      `${no ? 'Avstemming av lønnsslipper' : 'Payslip reconciliation'} ${selectedYear}`,
+      [headers, ...rows].map(row => row.join('|')).join('\n'),
+      `${no ? 'Total differanse' : 'Total difference'}: ${money(total)}`
+    ].join('\n\n');
+    const BOM = '\uFEFF';
+    downloadFile(BOM + content, `payslip_reconciliation_${selectedYear}.csv`);
+  };
+
+  // Back pay report: the day rows of each month with what was paid, what is
+  // owed at the settled rate and the difference, then a per-shift summary
+  const handleBackPayDownload = (report: RetroactivePay) => {
+    const no = language === 'no';
+    const money = (amount: number) => withCsvCurrency(formatCsvNumber(amount, language));
+    const content = [
+      `${no ? 'Etterbetaling' : 'Back pay'}|${no ? 'Ny grunnlønn' : 'New base rate'} ${money(report.change.rate)}|${no ? 'Gjelder fra' : 'Effective from'} ${formatDateKey(report.change.effectiveFrom)}`,
+      ...report.months.map(monthPay => {
+        const [headers, ...rows] = buildMonthCsvRows(monthPay.days.map(({ paid }) => toDownloadRow(paid, language)));
+        const csvRows = [
+          [...headers.slice(0, -1), no ? 'Utbetalt' : 'Paid', no ? 'Skulle hatt' : 'Owed', no ? 'Differanse' : 'Difference'],
+          ...rows.map((row, index) => [...row, money(monthPay.days[index].owed.earnings), money(monthPay.days[index].difference)])
+        ];
+        const monthName = getMonthName(monthPay.month);
+        const summaryRows = [
+          '',
+          `${monthName.charAt(0).toUpperCase() + monthName.slice(1)} ${monthPay.year}|${no ? 'Vaktype' : 'Shift Type'}|${no ? 'Antall timer' : 'Total Hours'}|${no ? 'Utbetalt' : 'Paid'}|${no ? 'Skulle hatt' : 'Owed'}|${no ? 'Differanse' : 'Difference'}`,
+          ...Object.entries(monthPay.shiftData).map(([type, summary]) => {
+            const shift = shiftTypes.find(s => s.type === type);
+            const hours = summary.hours.toLocaleString(no ? 'nb-NO' : 'en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+            return `|${shift ? getShiftLabel(shift, language) : type}|${hours} ${no ? 'timer' : 'hours'}|${money(summary.paid)}|${money(summary.owed)}|${money(summary.difference)}`;
+          }),
+          `${no ? 'Totalt' : 'Total'}: ${money(monthPay.difference)}`
+        ];
+        return csvRows.map(row => row.join('|')).join('\n') + '\n' + summaryRows.join('\n');
+      }),
+      `${no ? 'Total etterbetaling' : 'Total back pay'}: ${money(report.difference)}`
+    ].join('\n\n');
+    const BOM = '\uFEFF';
+    downloadFile(BOM + content, `back_pay_${report.change.effectiveFrom}.csv`);
+  };
+
+  const downloadFile = (content: string, filename: string, type = 'text/csv;charset=utf-8;') => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const downloadCSV = (rows: DownloadRow[], headers: string[], filename: string) => {
     // Pipe-separated, no quotes
     const csvRows = [
@@ -877,22 +1625,102 @@ const Dashboard: React.FC = () => {
       ])
     ];
     const csvContent = csvRows.map(row => row.join('|')).join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(csvContent, filename);
   };
 
-  // Get available years from workedDays
-  const availableYears = Object.keys(workedDays)
-    .map(Number)
+  // Years with worked days, loaded or not
+  const availableYears = [
+    ...storedYears.filter(({ year }) => !loadedYears.includes(year)).map(({ year }) => year),
+    ...Object.keys(workedDays).map(Number).filter(year => workedDays[year].length)
+  ]
+    .filter((year, index, all) => all.indexOf(year) === index)
     .sort((a, b) => b - a);
 
+  // Everything a backup holds; worked days only cover the loaded years
+  const backupData: BackupData = {
+    workedDays,
+    shiftTypes,
+    jobs,
+    supplements,
+    premiumWindows,
+    overtimeRules,
+    currencyConfig,
+    holidayRegion,
+    customHolidays,
+    language,
+    selectedJobId,
+    vacationDays,
+    holidayPay,
+    taxSettings,
+    deductions,
+    payslips,
+    payPeriods
+  };
+
+  const handleBackupDownload = () => {
+    loadYears(availableYears).then(days => {
+      const content = JSON.stringify(createBackup({ ...backupData, workedDays: days }), null, 2);
+      downloadFile(content, `jobbtid_backup_${toDateKey(new Date())}.json`, 'application/json;charset=utf-8;');
+    }).catch(reportWorkDayError);
+  };
+
+  // Years missing from the restored data are emptied, so replacing removes them
+  const handleRestore = (data: BackupData) => {
+    const years = Object.keys(data.workedDays).map(Number);
+    loadYears(years).then(() => {
+      setWorkedDays(prev => [...Object.keys(prev).map(Number), ...years].reduce((acc, year) => ({
+        ...acc,
+        [year]: data.workedDays[year] || []
+      }), {} as WorkedDays));
+      setShiftTypes(data.shiftTypes);
+      setJobs(data.jobs);
+      setSupplements({ ...DEFAULT_SUPPLEMENTS, ...data.supplements });
+      setPremiumWindows(data.premiumWindows);
+      setOvertimeRules({ ...DEFAULT_OVERTIME_RULES, ...data.overtimeRules });
+      setCurrencyConfig(data.currencyConfig);
+      setHolidayRegion(data.holidayRegion);
+      setCustomHolidays(data.customHolidays);
+      setLanguage(data.language);
+      setSelectedJobId(data.jobs.some(job => job.id === data.selectedJobId) ? data.selectedJobId : ALL_JOBS);
+      if (data.vacationDays !== undefined) setVacationDays(data.vacationDays);
+      if (data.holidayPay) setHolidayPay({ ...DEFAULT_HOLIDAY_PAY, ...data.holidayPay });
+      if (data.taxSettings) setTaxSettings({ ...DEFAULT_TAX_SETTINGS, ...data.taxSettings });
+      if (data.deductions) setDeductions(data.deductions);
+      if (data.payslips) setPayslips(data.payslips);
+      if (data.payPeriods) setPayPeriods({ ...DEFAULT_PAY_PERIODS, ...data.payPeriods });
+      // Settings are not part of the undo snapshots, so a restore can't be undone
+      setEditHistory({ past: [], future: [] });
+      setUndoNotice(undefined);
+    }).catch(reportWorkDayError);
+  };
+
+  const renderToggle = (options: { value: boolean; label: string }[], current: boolean, onSelect: (value: boolean) => void) => (
+    <Box sx={{ display: 'flex', gap: 1.5 }}>
+      {options.map(option => {
+        const selected = current === option.value;
+        return (
+          <Button
+            key={option.label}
+            onClick={() => onSelect(option.value)}
+            variant={selected ? 'contained' : 'outlined'}
+            sx={{
+              bgcolor: selected ? '#00e676' : 'transparent',
+              borderColor: '#00e676',
+              color: selected ? '#000' : '#00e676',
+              fontWeight: 600,
+              '&:hover': {
+                bgcolor: selected ? '#00c853' : '#00e67622',
+                borderColor: '#00e676'
+              }
+            }}
+          >
+            {option.label}
+          </Button>
+        );
+      })}
+    </Box>
+  );
+
   const getMonthName = (month: number): string => {
     const monthNames = language === 'no' ? 
       ['januar', 'februar', 'mars', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'desember'] :
@@ -910,6 +1738,84 @@ const Dashboard: React.FC = () => {
         availableYears={availableYears.length ? availableYears : [selectedYear]}
         onYearlyDownload={handleYearlyDownload}
         onCurrencyChange={setCurrencyConfig}
+        holidayRegion={holidayRegion}
+        customHolidays={customHolidays}
+        onHolidaySettingsChange={({ region, customHolidays }) => {
+          setHolidayRegion(region);
+          setCustomHolidays(customHolidays);
+        }}
+        supplements={supplements}
+        onSupplementsChange={setSupplements}
+        premiumWindows={premiumWindows}
+        onPremiumWindowsChange={setPremiumWindows}
+        overtimeRules={overtimeRules}
+        onOvertimeRulesChange={setOvertimeRules}
+        holidayPay={holidayPay}
+        onHolidayPayChange={setHolidayPay}
+        taxSettings={taxSettings}
+        onTaxSettingsChange={setTaxSettings}
+        deductions={deductions}
+        onDeductionsChange={setDeductions}
+        payPeriods={payPeriods}
+        onPayPeriodsChange={setPayPeriods}
+        shiftTypes={visibleShiftTypes.filter(shift => !shift.absence)}
+        baseRate={editJob.baseRate}
+        rateHistory={editJob.rateHistory}
+        salary={editJobSalary}
+        onSalaryChange={handleSalaryChange}
+        jobs={jobs}
+        usedJobIds={usedJobIds}
+        onJobsChange={handleJobsChange}
+        onRateHistoryChange={handleRateHistoryChange}
+        onBackPayOpen={() => loadYears(availableYears).then(() => setBackPayOpen(true)).catch(reportWorkDayError)}
+        onBackupDownload={handleBackupDownload}
+        onRestoreOpen={() => loadYears(availableYears).then(() => setRestoreOpen(true)).catch(reportWorkDayError)}
+        onArchiveOpen={() => loadYears(availableYears).then(() => setArchiveOpen(true)).catch(reportWorkDayError)}
+        onClearWorkedDays={() => workDayStore.then(store => store.clear())}
+      />
+      <Snackbar
+        open={!!undoNotice}
+        autoHideDuration={6000}
+        onClose={(_, reason) => reason !== 'clickaway' && setUndoNotice(undefined)}
+        message={undoNotice}
+        action={
+          <Button onClick={handleUndo} sx={{ color: '#00e676', fontWeight: 600 }}>
+            {t.undo}
+          </Button>
+        }
+      />
+      <ArchivedShiftTypesDialog
+        open={archiveOpen}
+        onClose={() => setArchiveOpen(false)}
+        language={language}
+        shiftTypes={visibleShiftTypes}
+        workedDays={workedDays}
+        getShiftLabel={getShiftLabel}
+        onReassign={handleReassignShiftType}
+        onUnarchive={handleUnarchiveShiftType}
+        onDelete={handleDeleteArchivedShiftType}
+      />
+      <RestoreDialog
+        open={restoreOpen}
+        onClose={() => setRestoreOpen(false)}
+        language={language}
+        current={backupData}
+        onRestore={handleRestore}
+      />
+      <BackPayDialog
+        open={backPayOpen}
+        onClose={() => setBackPayOpen(false)}
+        language={language}
+        workedDays={editJobWorkedDays}
+        payContext={editJobContext}
+        formatAmount={formatAmount}
+        getShiftLabel={getShiftLabel}
+        getMonthName={getMonthName}
+        onDownload={handleBackPayDownload}
+        onApply={change => updateJob(editJob.id, job => ({
+          ...job,
+          rateHistory: withRateChange(getJobPayContext(job).rates, change).rateHistory
+        }))}
       />
       
       {/* Header */}
@@ -940,6 +1846,81 @@ const Dashboard: React.FC = () => {
         {t.subtitle}
       </Typography>
 
+      {/* Saved data that could not be read */}
+      {storageIssues.length > 0 && (
+        <Alert
+          severity="warning"
+          onClose={() => setStorageIssues([])}
+          sx={{ mb: 3, bgcolor: '#2a2416', color: '#ffd740' }}
+        >
+          {t.storageIssues}
+          {storageIssues.map(issue => (
+            <Box key={issue.key} sx={{ fontFamily: 'monospace', fontSize: '0.85rem', mt: 0.5 }}>
+              {issue.key}: {issue.error}{issue.backupKey && ` (${t.storageIssueBackup} ${issue.backupKey})`}
+            </Box>
+          ))}
+        </Alert>
+      )}
+
+      {/* Worked days that could not be read or saved */}
+      {workDayError && (
+        <Alert
+          severity="error"
+          onClose={() => setWorkDayError(undefined)}
+          sx={{ mb: 3, bgcolor: '#2a1616', color: '#ff8a80' }}
+        >
+          {t.workDayError} {workDayError}
+        </Alert>
+      )}
+
+      {/* Job filter */}
+      {jobs.length > 1 && (
+        <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', mb: 3 }}>
+          {[...(mixedCurrencies ? [] : [{ id: ALL_JOBS, name: t.allJobs, color: '#fff' }]), ...jobs].map(job => {
+            const selected = (activeJob?.id || ALL_JOBS) === job.id;
+            return (
+              <Button
+                key={job.id}
+                onClick={() => setSelectedJobId(job.id)}
+                variant={selected ? 'contained' : 'outlined'}
+                sx={{
+                  bgcolor: selected ? job.color : 'transparent',
+                  borderColor: job.color,
+                  color: selected ? '#000' : job.color,
+                  fontSize: '1.1rem',
+                  fontWeight: 600,
+                  '&:hover': {
+                    bgcolor: selected ? job.color : `${job.color}22`,
+                    borderColor: job.color
+                  }
+                }}
+              >
+                {job.name}
+              </Button>
+            );
+          })}
+          {mixedCurrencies && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', alignSelf: 'center' }}>{t.mixedCurrencies}</Typography>
+          )}
+        </Box>
+      )}
+
+      {/* View toggles: work month or payout date, gross or net */}
+      {(payPeriods.enabled || hasNetPay) && (
+        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mb: 3 }}>
+          {payPeriods.enabled && renderToggle(
+            [{ value: false, label: t.byWorkMonth }, { value: true, label: t.byPayout }],
+            showByPayout,
+            setShowByPayout
+          )}
+          {hasNetPay && renderToggle(
+            [{ value: false, label: t.gross }, { value: true, label: t.net }],
+            showNet,
+            setShowNet
+          )}
+        </Box>
+      )}
+
       {/* Summary Cards */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
         <Grid item xs={12} md={4}>
@@ -947,35 +1928,110 @@ const Dashboard: React.FC = () => {
             title={t.yearlyEarnings}
             amount={yearlyEarnings}
             subtitle={`${t.projectedEarnings} ${selectedYear}`}
-            prefix={currencyConfig.currency}
-            currencyPosition={currencyConfig.position}
+            prefix={viewCurrency.currency}
+            currencyPosition={viewCurrency.position}
             formatAmount={formatAmount}
+            breakdown={[
+              ...(netView ? [{ label: t.gross, amount: selectedYearPay.total }] : []),
+              ...(netView && taxSettings.enabled ? [{ label: t.tax, amount: -yearlyTax }] : []),
+              ...(netView && deductions.length > 0 ? [{ label: t.deductions, amount: -yearlyDeductions }] : []),
+              { label: t.earnedSoFar, amount: selectedYearPay.earned * yearlyNetShare },
+              { label: t.projected, amount: selectedYearPay.projected * yearlyNetShare },
+              ...(yearlySalary > 0 ? [{ label: t.salary, amount: yearlySalary * yearlyNetShare }] : []),
+              // Taxed when it is paid out next year, so shown gross in the net view too
+              ...(holidayPay.enabled
+                ? [{ label: netView ? t.holidayPayAccruedGross : t.holidayPayAccrued, amount: selectedYearPay.holidayPayAccrued }]
+                : [])
+            ]}
           />
         </Grid>
         <Grid item xs={12} md={4}>
           <EarningsCard
             title={t.monthlyEarnings}
             amount={monthlyEarnings}
-            subtitle={`${t.totalEarningsMonth} ${getMonthName(selectedMonth)}`}
-            prefix={currencyConfig.currency}
-            currencyPosition={currencyConfig.position}
+            subtitle={byPayout
+              ? `${t.paidOn} ${formatDateKey(toDateKey(getPayoutDate(selectedYear, selectedMonth, payPeriods)))}`
+              : `${t.totalEarningsMonth} ${getMonthName(selectedMonth)}`}
+            prefix={viewCurrency.currency}
+            currencyPosition={viewCurrency.position}
             formatAmount={formatAmount}
+            breakdown={[
+              ...(netView ? [{ label: t.gross, amount: selectedMonthPay.total }] : []),
+              ...(netView && taxSettings.enabled ? [{ label: t.tax, amount: -monthlyWithholding.tax }] : []),
+              ...(netView && deductions.length > 0
+                ? [{ label: t.deductions, amount: monthlyWithholding.tax - monthlyWithholding.total }]
+                : []),
+              { label: t.earnedSoFar, amount: selectedMonthPay.earned * monthlyNetShare },
+              { label: t.projected, amount: selectedMonthPay.projected * monthlyNetShare },
+              ...(selectedMonthPay.salary !== undefined
+                ? [{ label: t.salary, amount: selectedMonthPay.salary * monthlyNetShare }]
+                : []),
+              ...(selectedMonthHolidayPay
+                ? [{ label: t.holidayPay, amount: (selectedMonthHolidayPay.amount - selectedMonthHolidayPay.deduction) * monthlyNetShare }]
+                : [])
+            ]}
           />
         </Grid>
         <Grid item xs={12} md={4}>
-          <EarningsCard
-            title={t.baseRate}
-            amount={baseRate}
-            subtitle={t.baseRateHour}
-            prefix={currencyConfig.currency}
-            currencyPosition={currencyConfig.position}
-            editable={true}
-            onAmountChange={handleBaseRateChange}
-            formatAmount={formatAmount}
-          />
+          {isPaidBySalary(new Date(selectedYear, selectedMonth, 1), editJobSalary) ? (
+            <EarningsCard
+              title={t.salary}
+              amount={selectedMonthSalary}
+              subtitle={`${jobs.length > 1 ? `${editJob.name}: ` : ''}${selectedSalaryChange
+                ? `${t.rateFrom} ${formatDateKey(selectedSalaryChange.effectiveFrom)}, `
+                : ''}${t.salaryRateHour} ${formatAmount(selectedMonthRate)}`}
+              prefix={viewCurrency.currency}
+              currencyPosition={viewCurrency.position}
+              editable={true}
+              onAmountChange={handleMonthlySalaryChange}
+              formatAmount={formatAmount}
+            />
+          ) : (
+            <EarningsCard
+              title={t.baseRate}
+              amount={selectedMonthRate}
+              subtitle={`${jobs.length > 1 ? `${editJob.name}: ` : ''}${selectedRateChange
+                ? `${t.baseRateHour} ${t.rateFrom} ${formatDateKey(selectedRateChange.effectiveFrom)}`
+                : t.baseRateHour}`}
+              prefix={viewCurrency.currency}
+              currencyPosition={viewCurrency.position}
+              editable={true}
+              onAmountChange={handleBaseRateChange}
+              formatAmount={formatAmount}
+            />
+          )}
         </Grid>
       </Grid>
 
+      {visibleShiftTypes.some(shift => shift.absence) && (
+        <AbsenceCounters
+          language={language}
+          year={selectedYear}
+          counters={absenceCounters}
+          vacationDays={vacationDays}
+          onVacationDaysChange={setVacationDays}
+        />
+      )}
+
+      {(activeJob || jobs.length === 1) && (
+        <PayslipCard
+          language={language}
+          monthName={getMonthName(selectedMonth)}
+          payslip={selectedPayslip}
+          check={payslipChecks.find(check => check.payslip.month === selectedMonth)}
+          expectedGross={selectedMonthPay.total}
+          expectedNet={getExpectedNet(selectedMonthPay)}
+          getShiftTypeLabel={type => {
+            const shift = visibleShiftTypes.find(s => s.type === type);
+            return shift ? getDisplayLabel(shift, language) : type;
+          }}
+          formatAmount={amount => formatAmount(amount)}
+          yearChecks={payslipChecks}
+          onPayslipChange={handlePayslipChange}
+          onReportDownload={handleReconciliationDownload}
+        />
+      )}
+
       {/* Monthly Earnings Chart */}
       <Box
         sx={{
@@ -1000,7 +2056,7 @@ const Dashboard: React.FC = () => {
           {t.monthlyEarnings} ({selectedYear})
         </Typography>
         <ResponsiveContainer width="100%" height="90%">
-          <BarChart data={monthlyData} margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
+          <BarChart data={monthlyData} stackOffset="sign" margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
             <CartesianGrid 
               strokeDasharray="3 3" 
               stroke="rgba(255, 255, 255, 0.1)"
@@ -1022,7 +2078,16 @@ const Dashboard: React.FC = () => {
             <Legend 
               formatter={formatLegendText as (value: string, entry: any) => string} 
             />
-            {shiftTypes.map(shift => (
+            {(activeJob ? [activeJob] : jobs).some(job => job.salary?.enabled) && (
+              <Bar
+                dataKey="salary"
+                name={t.salary}
+                stackId="a"
+                fill={SALARY_COLOR}
+                radius={[4, 4, 0, 0]}
+              />
+            )}
+            {visibleShiftTypes.map(shift => (
               <Bar
                 key={shift.type}
                 dataKey={`shiftData.${shift.type}.earnings`}
@@ -1038,25 +2103,142 @@ const Dashboard: React.FC = () => {
                 radius={[4, 4, 0, 0]}
               />
             ))}
+            {premiumWindows.map(window => (
+              <Bar
+                key={window.id}
+                dataKey={`premiumData.${window.id}.amount`}
+                name={window.name}
+                stackId="a"
+                fill={getPremiumColor(window.id)}
+                radius={[4, 4, 0, 0]}
+              />
+            ))}
+            {overtimeRules.enabled && (
+              <Bar
+                dataKey="statutoryOvertime.amount"
+                name={t.statutoryOvertime}
+                stackId="a"
+                fill={STATUTORY_OVERTIME_COLOR}
+                radius={[4, 4, 0, 0]}
+              />
+            )}
+            {SUPPLEMENT_KINDS.filter(kind => supplements[kind].value > 0).map(kind => (
+              <Bar
+                key={kind}
+                dataKey={`supplementData.${kind}.amount`}
+                name={t.supplementLabels[kind]}
+                stackId="a"
+                fill={SUPPLEMENT_COLORS[kind]}
+                radius={[4, 4, 0, 0]}
+              />
+            ))}
+            {holidayPay.enabled && (
+              <Bar
+                dataKey="holidayPay.amount"
+                name={t.holidayPay}
+                stackId="a"
+                fill={HOLIDAY_PAY_COLOR}
+                radius={[4, 4, 0, 0]}
+              />
+            )}
+            {holidayPay.enabled && holidayPay.deductionDays > 0 && (
+              <Bar
+                dataKey="vacationDeduction"
+                name={t.vacationDeduction}
+                stackId="a"
+                fill={VACATION_DEDUCTION_COLOR}
+              />
+            )}
+            {netView && taxSettings.enabled && (
+              <Bar
+                dataKey="tax"
+                name={t.tax}
+                stackId="a"
+                fill={TAX_COLOR}
+              />
+            )}
+            {netView && deductions.length > 0 && (
+              <Bar
+                dataKey="deductionTotal"
+                name={t.deductions}
+                stackId="a"
+                fill={DEDUCTION_COLOR}
+              />
+            )}
+            <Bar
+              dataKey="projected"
+              name={t.projected}
+              stackId="a"
+              fill="rgba(255, 255, 255, 0.12)"
+              stroke="rgba(255, 255, 255, 0.4)"
+              strokeDasharray="4 3"
+              radius={[4, 4, 0, 0]}
+            />
           </BarChart>
         </ResponsiveContainer>
       </Box>
 
+      {/* Rotation preview */}
+      {rotationPreview && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2, bgcolor: '#16232a', color: '#fff', alignItems: 'center' }}
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button onClick={() => setRotationOpen(true)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.editRotation}</Button>
+              <Button onClick={() => setRotationPreview(undefined)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+              <Button
+                onClick={handleApplyRotation}
+                disabled={rotationDays.length === 0}
+                variant="contained"
+                sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}
+              >
+                {t.applyRotation}
+              </Button>
+            </Box>
+          }
+        >
+          {t.rotationPreview
+            .replace('{count}', String(rotationDays.length))
+            .replace('{start}', formatDateKey(rotationPreview.startDate))
+            .replace('{end}', formatDateKey(rotationPreview.endDate))}
+        </Alert>
+      )}
+
       {/* Calendar */}
       <Calendar
         year={selectedYear}
         month={selectedMonth}
         workedDays={currentMonthWorkedDays}
         onDayClick={handleDayClick}
+        onWorkDayTimesChange={handleWorkDayTimesChange}
+        onWorkDayStatusChange={handleWorkDayStatusChange}
         onMonthChange={handleMonthChange}
-        baseRate={baseRate}
+        baseRate={selectedMonthRate}
+        jobRates={jobs.reduce((acc, job) => ({ ...acc, [job.id]: getBaseRateOn(selectedMonthStart, getJobPayContext(job).rates) }), {})}
         onShiftHoursChange={handleShiftHoursChange}
         onShiftTypesChange={handleShiftTypesChange}
         language={language}
         onMonthlyDownload={handleMonthlyDownload}
-        currencyConfig={currencyConfig}
+        currencyConfig={viewCurrency}
         formatAmount={formatAmount}
-        shiftTypes={shiftTypes}
+        shiftTypes={visibleShiftTypes}
+        monthPay={workYearPay.months[selectedMonth]}
+        holidays={holidayProvider}
+        premiumWindows={premiumWindows}
+        onUndo={editHistory.past.length ? handleUndo : undefined}
+        onRedo={editHistory.future.length ? handleRedo : undefined}
+        onRotationOpen={() => setRotationOpen(true)}
+        previewDays={previewDays}
+      />
+      <RotationDialog
+        open={rotationOpen}
+        onClose={() => setRotationOpen(false)}
+        language={language}
+        shiftTypes={visibleShiftTypes.filter(shift => !shift.archived && !shift.absence)}
+        getShiftLabel={getShiftLabel}
+        plan={rotationPreview || rotationPlan}
+        onPreview={handleRotationPreview}
       />
     </Box>
   );
@@ -11,6 +11,8 @@ export interface EarningsCardProps {
   onAmountChange?: (amount: number) => void;
   currencyPosition?: 'before' | 'after';
   formatAmount?: (amount: number) => string;
+  // Parts of the amount listed under the subtitle, e.g. earned and projected
+  breakdown?: { label: string; amount: number }[];
 }
 
 const EarningsCard: React.FC<EarningsCardProps> = ({
@@ -21,16 +23,19 @@ const EarningsCard: React.FC<EarningsCardProps> = ({
   editable = false,
   onAmountChange,
   currencyPosition = 'before',
-  formatAmount
+  formatAmount,
+  breakdown
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(amount.toString());
 
-  const displayAmount = formatAmount
-    ? formatAmount(amount)
+  const format = (value: number) => formatAmount
+    ? formatAmount(value)
     : currencyPosition === 'before'
-      ? `${prefix}${amount}`
-      : `${amount} ${prefix}`;
+      ? `${prefix}${value}`
+      : `${value} ${prefix}`;
+
+  const displayAmount = format(amount);
 
   const handleEditClick = () => {
     setEditValue(amount.toString());
@@ -134,6 +139,15 @@ const EarningsCard: React.FC<EarningsCardProps> = ({
         >
           {subtitle}
         </Typography>
+        {breakdown && breakdown.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 1 }}>
+            {breakdown.map(part => (
+              <Typography key={part.label} sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.95rem' }}>
+                {part.label}: {format(part.amount)}
+              </Typography>
+            ))}
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,45 +1,21 @@
 import React from 'react';
 import { Card, CardContent, Typography, Box, Divider } from '@mui/material';
+import { MonthPay } from './payEngine';
 
 export interface EarningsSummaryProps {
-  workedDays: { [key: number]: string };
+  monthPay: MonthPay;
   currencyConfig: { currency: string; position: 'before' | 'after' };
   formatAmount: (amount: number, opts?: { isYAxisLabel?: boolean }) => string;
 }
 
-const EarningsSummary: React.FC<EarningsSummaryProps> = ({ workedDays, currencyConfig, formatAmount }) => {
-  // Calculate earnings based on shift types
-  const baseRate = 35; // Base hourly rate
-  const eveningPremium = 5; // Additional per hour for evening shifts
-  const nightPremium = 10; // Additional per hour for night shifts
-  const hoursPerShift = 8;
-
-  const calculateEarnings = () => {
-    const earnings = {
-      day: 0,
-      evening: 0,
-      night: 0,
-    };
-
-    Object.values(workedDays).forEach(shiftType => {
-      switch (shiftType) {
-        case 'day':
-          earnings.day += baseRate * hoursPerShift;
-          break;
-        case 'evening':
-          earnings.evening += (baseRate + eveningPremium) * hoursPerShift;
-          break;
-        case 'night':
-          earnings.night += (baseRate + nightPremium) * hoursPerShift;
-          break;
-      }
-    });
-
-    return earnings;
-  };
-
-  const earnings = calculateEarnings();
-  const totalEarnings = Object.values(earnings).reduce((a, b) => a + b, 0);
+const EarningsSummary: React.FC<EarningsSummaryProps> = ({ monthPay, currencyConfig, formatAmount }) => {
+  // Earnings per shift type come from the shared pay engine
+  const shiftRows = Object.entries(monthPay.shiftData).map(([type, summary]) => ({
+    type,
+    shift: monthPay.days.find(d => d.shift.type === type)?.shift,
+    ...summary
+  }));
+  const totalEarnings = monthPay.total;
 
   const formatCurrency = (amount: number) => formatAmount(amount);
 
@@ -51,18 +27,12 @@ const EarningsSummary: React.FC<EarningsSummaryProps> = ({ workedDays, currencyC
         </Typography>
 
         <Box sx={{ mb: 3 }}>
-          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-            <Typography sx={{ color: '#fff' }}>Day Shifts ({Object.values(workedDays).filter(t => t === 'day').length})</Typography>
-            <Typography sx={{ color: '#fff' }}>{formatCurrency(earnings.day)}</Typography>
-          </Box>
-          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-            <Typography sx={{ color: '#fff' }}>Evening Shifts ({Object.values(workedDays).filter(t => t === 'evening').length})</Typography>
-            <Typography sx={{ color: '#fff' }}>{formatCurrency(earnings.evening)}</Typography>
-          </Box>
-          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-            <Typography sx={{ color: '#fff' }}>Night Shifts ({Object.values(workedDays).filter(t => t === 'night').length})</Typography>
-            <Typography sx={{ color: '#fff' }}>{formatCurrency(earnings.night)}</Typography>
-          </Box>
+          {shiftRows.map(({ type, shift, days, earnings }) => (
+            <Box key={type} sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+              <Typography sx={{ color: '#fff' }}>{shift ? (shift.labelEn || shift.label) : type} ({days})</Typography>
+              <Typography sx={{ color: '#fff' }}>{formatCurrency(earnings)}</Typography>
+            </Box>
+          ))}
         </Box>
 
         <Divider sx={{ borderColor: 'rgba(255, 255, 255, 0.1)' }} />
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, Typography, Box, TextField, Button, Grid } from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { Payslip, PayslipCheck, PAYSLIP_TOLERANCE } from './payslips';
+
+export interface PayslipCardProps {
+  language: 'en' | 'no';
+  monthName: string;
+  payslip?: Payslip;
+  // The month checked against its payslip, when there is one
+  check?: PayslipCheck;
+  expectedGross: number;
+  expectedNet?: number;
+  getShiftTypeLabel: (shiftType: string) => string;
+  formatAmount: (amount: number) => string;
+  yearChecks: PayslipCheck[];
+  onPayslipChange: (values?: { gross: number; net?: number }) => void;
+  onReportDownload: () => void;
+}
+
+const translations = {
+  en: {
+    title: 'Payslip',
+    gross: 'Gross paid',
+    net: 'Net paid',
+    calculated: 'Calculated',
+    matches: 'Matches the calculated pay',
+    mismatch: 'Differs from the calculated pay by',
+    netMismatch: 'Net differs by',
+    likelyCause: 'Likely',
+    shifts: 'shifts',
+    hours: 'h',
+    orHours: 'or',
+    clear: 'Clear',
+    yearSummary: '{checked} payslips this year, {mismatched} with differences totalling {difference}',
+    report: 'Year report'
+  },
+  no: {
+    title: 'Lønnsslipp',
+    gross: 'Utbetalt brutto',
+    net: 'Utbetalt netto',
+    calculated: 'Beregnet',
+    matches: 'Stemmer med beregnet lønn',
+    mismatch: 'Avviker fra beregnet lønn med',
+    netMismatch: 'Netto avviker med',
+    likelyCause: 'Trolig',
+    shifts: 'vakter',
+    hours: 't',
+    orHours: 'eller',
+    clear: 'Fjern',
+    yearSummary: '{checked} lønnsslipper i år, {mismatched} med avvik på til sammen {difference}',
+    report: 'Årsrapport'
+  }
+};
+
+const PayslipCard: React.FC<PayslipCardProps> = ({
+  language,
+  monthName,
+  payslip,
+  check,
+  expectedGross,
+  expectedNet,
+  getShiftTypeLabel,
+  formatAmount,
+  yearChecks,
+  onPayslipChange,
+  onReportDownload
+}) => {
+  const t = translations[language];
+  const [gross, setGross] = useState('');
+  const [net, setNet] = useState('');
+
+  useEffect(() => {
+    setGross(payslip ? payslip.gross.toString() : '');
+    setNet(payslip?.net !== undefined ? payslip.net.toString() : '');
+  }, [payslip]);
+
+  // Saved when a field is left, an empty gross removes the payslip
+  const handleBlur = () => {
+    const grossValue = parseFloat(gross);
+    const netValue = parseFloat(net);
+    if (isNaN(grossValue)) {
+      if (payslip) onPayslipChange(undefined);
+      return;
+    }
+    onPayslipChange({ gross: grossValue, net: isNaN(netValue) ? undefined : netValue });
+  };
+
+  const signed = (amount: number) => `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatAmount(Math.abs(amount))}`;
+  const number = (value: number) => value.toLocaleString(language === 'no' ? 'nb-NO' : 'en-US', { maximumFractionDigits: 1 });
+  const mismatched = yearChecks.filter(yearCheck => !yearCheck.matches);
+  const inputSx = { bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 160 };
+
+  return (
+    <Card sx={{ bgcolor: '#1e1e1e', boxShadow: 'none', borderRadius: 2, mb: 4 }}>
+      <CardContent sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Typography sx={{ color: '#00e676', fontSize: '1.25rem', fontWeight: 700, letterSpacing: '0.01em' }}>
+            {t.title} ({monthName})
+          </Typography>
+          <Button
+            startIcon={<DownloadIcon />}
+            onClick={onReportDownload}
+            disabled={!yearChecks.length}
+            sx={{ color: '#00e676' }}
+          >
+            {t.report}
+          </Button>
+        </Box>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={5}>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+              <TextField
+                label={t.gross}
+                type="number"
+                size="small"
+                value={gross}
+                onChange={e => setGross(e.target.value)}
+                onBlur={handleBlur}
+                helperText={`${t.calculated}: ${formatAmount(expectedGross)}`}
+                InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)' } }}
+                FormHelperTextProps={{ sx: { color: 'rgba(255, 255, 255, 0.5)' } }}
+                sx={inputSx}
+              />
+              <TextField
+                label={t.net}
+                type="number"
+                size="small"
+                value={net}
+                onChange={e => setNet(e.target.value)}
+                onBlur={handleBlur}
+                helperText={expectedNet !== undefined ? `${t.calculated}: ${formatAmount(expectedNet)}` : ' '}
+                InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)' } }}
+                FormHelperTextProps={{ sx: { color: 'rgba(255, 255, 255, 0.5)' } }}
+                sx={inputSx}
+              />
+              {payslip && (
+                <Button onClick={() => onPayslipChange(undefined)} sx={{ color: 'rgba(255,255,255,0.7)', mb: 2.5 }}>
+                  {t.clear}
+                </Button>
+              )}
+            </Box>
+          </Grid>
+          <Grid item xs={12} md={7}>
+            {check && check.matches && (
+              <Typography sx={{ color: '#00e676', fontWeight: 500 }}>✓ {t.matches}</Typography>
+            )}
+            {check && !check.matches && (
+              <Box>
+                {Math.abs(check.grossDifference) >= PAYSLIP_TOLERANCE && (
+                  <Typography sx={{ color: '#ff5252', fontWeight: 500 }}>
+                    ⚠ {t.mismatch} {signed(check.grossDifference)}
+                  </Typography>
+                )}
+                {check.netDifference !== undefined && Math.abs(check.netDifference) >= PAYSLIP_TOLERANCE && (
+                  <Typography sx={{ color: '#ff5252', fontWeight: 500 }}>
+                    ⚠ {t.netMismatch} {signed(check.netDifference)}
+                  </Typography>
+                )}
+                {check.breakdown.map(difference => (
+                  <Typography
+                    key={difference.shiftType}
+                    sx={{
+                      color: difference.likely ? '#fff' : 'rgba(255, 255, 255, 0.6)',
+                      fontSize: '0.9rem',
+                      fontWeight: difference.likely ? 500 : 400,
+                      mt: 0.5
+                    }}
+                  >
+                    {difference.likely && `${t.likelyCause}: `}
+                    {getShiftTypeLabel(difference.shiftType)} ({difference.days}, {formatAmount(difference.earnings)}):
+                    {' '}{number(difference.shifts)} {t.shifts} {t.orHours} {number(difference.hoursDifference)} {t.hours}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+          </Grid>
+        </Grid>
+        {yearChecks.length > 0 && (
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', mt: 2 }}>
+            {t.yearSummary
+              .replace('{checked}', String(yearChecks.length))
+              .replace('{mismatched}', String(mismatched.length))
+              .replace('{difference}', signed(mismatched.reduce((sum, yearCheck) => sum + yearCheck.grossDifference, 0)))}
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PayslipCard;
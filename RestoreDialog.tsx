@@ -0,0 +1,201 @@
+import React, { useState, useMemo } from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography } from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { Backup, BackupData, BackupProblem, BackupSetting, parseBackup, summarizeRestore, mergeBackupData } from './backup';
+
+export interface RestoreDialogProps {
+  open: boolean;
+  onClose: () => void;
+  language: 'en' | 'no';
+  current: BackupData;
+  onRestore: (data: BackupData) => void;
+}
+
+const translations = {
+  en: {
+    title: 'Restore Backup',
+    hint: 'Choose a backup file. Replacing discards the current data; merging adds what only the backup has and keeps your current entries where both have something.',
+    chooseFile: 'Choose File',
+    createdAt: 'Backup from',
+    years: 'Years',
+    entries: 'Shift entries',
+    newDays: 'Days only in the backup',
+    conflictingDays: 'Days that differ',
+    removedDays: 'Days only in the current data',
+    newShiftTypes: 'New shift types',
+    newJobs: 'New jobs',
+    changedSettings: 'Settings that differ',
+    problems: {
+      unreadable: 'The file could not be read.',
+      invalidJson: 'The file is not valid JSON.',
+      notBackup: 'The file is not a backup from this app.',
+      newerVersion: 'The backup was made by a newer version of the app.',
+      invalidData: 'The backup is incomplete or damaged.'
+    } as Record<BackupProblem, string>,
+    settingNames: {
+      supplements: 'Supplements',
+      premiumWindows: 'Premium windows',
+      overtimeRules: 'Overtime rules',
+      currencyConfig: 'Currency',
+      holidayRegion: 'Holiday region',
+      customHolidays: 'Custom holidays',
+      language: 'Language',
+      vacationDays: 'Vacation days',
+      holidayPay: 'Holiday pay',
+      taxSettings: 'Tax withholding',
+      deductions: 'Deductions',
+      payPeriods: 'Pay periods'
+    } as Record<BackupSetting, string>,
+    cancel: 'Cancel',
+    merge: 'Merge',
+    replace: 'Replace'
+  },
+  no: {
+    title: 'Gjenopprett sikkerhetskopi',
+    hint: 'Velg en sikkerhetskopi. Erstatt forkaster dagens data; slå sammen legger til det som bare finnes i sikkerhetskopien og beholder dagens registreringer der begge har noe.',
+    chooseFile: 'Velg fil',
+    createdAt: 'Sikkerhetskopi fra',
+    years: 'År',
+    entries: 'Vaktregistreringer',
+    newDays: 'Dager kun i sikkerhetskopien',
+    conflictingDays: 'Dager som er ulike',
+    removedDays: 'Dager kun i dagens data',
+    newShiftTypes: 'Nye vakttyper',
+    newJobs: 'Nye jobber',
+    changedSettings: 'Innstillinger som er ulike',
+    problems: {
+      unreadable: 'Filen kunne ikke leses.',
+      invalidJson: 'Filen er ikke gyldig JSON.',
+      notBackup: 'Filen er ikke en sikkerhetskopi fra denne appen.',
+      newerVersion: 'Sikkerhetskopien er laget av en nyere versjon av appen.',
+      invalidData: 'Sikkerhetskopien er ufullstendig eller skadet.'
+    } as Record<BackupProblem, string>,
+    settingNames: {
+      supplements: 'Tillegg',
+      premiumWindows: 'Tidstillegg',
+      overtimeRules: 'Overtidsregler',
+      currencyConfig: 'Valuta',
+      holidayRegion: 'Helligdagsregion',
+      customHolidays: 'Egne helligdager',
+      language: 'Språk',
+      vacationDays: 'Feriedager',
+      holidayPay: 'Feriepenger',
+      taxSettings: 'Skattetrekk',
+      deductions: 'Trekk',
+      payPeriods: 'Lønnsperioder'
+    } as Record<BackupSetting, string>,
+    cancel: 'Avbryt',
+    merge: 'Slå sammen',
+    replace: 'Erstatt'
+  }
+};
+
+const RestoreDialog: React.FC<RestoreDialogProps> = ({
+  open,
+  onClose,
+  language,
+  current,
+  onRestore
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<Backup>();
+  const [problem, setProblem] = useState<BackupProblem>();
+  const t = translations[language];
+
+  const summary = useMemo(() => backup && summarizeRestore(current, backup.data), [current, backup]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    file.text().then(text => {
+      const result = parseBackup(text);
+      setBackup(result.backup);
+      setProblem(result.problem);
+    }).catch(() => {
+      setBackup(undefined);
+      setProblem('unreadable');
+    });
+  };
+
+  const handleClose = () => {
+    setFileName('');
+    setBackup(undefined);
+    setProblem(undefined);
+    onClose();
+  };
+
+  const handleRestore = (merge: boolean) => {
+    if (!backup) return;
+    onRestore(merge ? mergeBackupData(current, backup.data) : backup.data);
+    handleClose();
+  };
+
+  const rows: [string, string | number][] = summary ? [
+    [t.years, summary.years.join(', ') || '-'],
+    [t.entries, summary.entries],
+    [t.newDays, summary.newDays],
+    [t.conflictingDays, summary.conflictingDays],
+    [t.removedDays, summary.removedDays],
+    [t.newShiftTypes, summary.newShiftTypes],
+    [t.newJobs, summary.newJobs],
+    [t.changedSettings, summary.changedSettings.map(key => t.settingNames[key]).join(', ') || '-']
+  ] : [];
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      PaperProps={{
+        sx: {
+          bgcolor: '#1e1e1e',
+          color: '#fff',
+          minWidth: 420,
+        },
+      }}
+    >
+      <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.title}</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.hint}</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Button component="label" startIcon={<UploadFileIcon />} sx={{ color: '#00e676' }}>
+            {t.chooseFile}
+            <input type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+          </Button>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem' }}>{fileName}</Typography>
+        </Box>
+        {problem && (
+          <Typography sx={{ color: '#ff5252' }}>{t.problems[problem]}</Typography>
+        )}
+        {backup && (
+          <Typography sx={{ color: '#fff', fontWeight: 600, mb: 1 }}>
+            {t.createdAt} {new Date(backup.createdAt).toLocaleString(language === 'no' ? 'nb-NO' : 'en-US')}
+          </Typography>
+        )}
+        {rows.map(([label, value]) => (
+          <Box key={label} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem' }}>{label}</Typography>
+            <Typography sx={{ color: '#fff', fontSize: '0.9rem', textAlign: 'right' }}>{value}</Typography>
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={handleClose} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+        <Button onClick={() => handleRestore(true)} disabled={!backup} sx={{ color: '#00e676' }}>
+          {t.merge}
+        </Button>
+        <Button
+          onClick={() => handleRestore(false)}
+          disabled={!backup}
+          variant="contained"
+          sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}
+        >
+          {t.replace}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RestoreDialog;
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField, Select, MenuItem, IconButton, Checkbox, FormControlLabel } from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { ShiftConfig } from './payEngine';
+import { RotationPlan, RotationHolidayMode, expandRotation } from './rotation';
+
+export interface RotationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  language: 'en' | 'no';
+  shiftTypes: ShiftConfig[];
+  getShiftLabel: (shift: ShiftConfig, language: 'en' | 'no') => string;
+  plan: RotationPlan;
+  onPreview: (plan: RotationPlan) => void;
+}
+
+const translations = {
+  en: {
+    title: 'Rotation Builder',
+    hint: 'Build the repeating sequence of your rotation, e.g. 2 day, 2 evening, 2 night and 4 days off. It is previewed on the calendar before anything is saved.',
+    sequence: 'Sequence',
+    off: 'Off',
+    days: 'days',
+    addBlock: 'Add',
+    cycleLength: 'Repeats every {count} days',
+    startDate: 'Start date',
+    endDate: 'End date',
+    holidays: 'On holidays',
+    holidayModes: {
+      work: 'Work the rotation',
+      skip: 'Take the day off',
+      replace: 'Work another shift'
+    } as Record<RotationHolidayMode, string>,
+    overwrite: 'Replace entries on days that already have some',
+    cancel: 'Cancel',
+    preview: 'Preview'
+  },
+  no: {
+    title: 'Turnusbygger',
+    hint: 'Bygg den gjentakende rekkefølgen i turnusen din, f.eks. 2 dag, 2 kveld, 2 natt og 4 fridager. Den forhåndsvises i kalenderen før noe lagres.',
+    sequence: 'Rekkefølge',
+    off: 'Fri',
+    days: 'dager',
+    addBlock: 'Legg til',
+    cycleLength: 'Gjentas hver {count}. dag',
+    startDate: 'Startdato',
+    endDate: 'Sluttdato',
+    holidays: 'På helligdager',
+    holidayModes: {
+      work: 'Jobb som i turnusen',
+      skip: 'Ta fri',
+      replace: 'Jobb en annen vakt'
+    } as Record<RotationHolidayMode, string>,
+    overwrite: 'Erstatt registreringer på dager som allerede har noen',
+    cancel: 'Avbryt',
+    preview: 'Forhåndsvis'
+  }
+};
+
+const RotationDialog: React.FC<RotationDialogProps> = ({
+  open,
+  onClose,
+  language,
+  shiftTypes,
+  getShiftLabel,
+  plan,
+  onPreview
+}) => {
+  const [draft, setDraft] = useState<RotationPlan>(plan);
+  const t = translations[language];
+
+  useEffect(() => {
+    if (open) setDraft(plan);
+  }, [open]);
+
+  const cycleLength = expandRotation(draft.blocks).length;
+  const isValid = cycleLength > 0 &&
+    draft.blocks.some(block => block.shiftType) &&
+    !!draft.startDate && !!draft.endDate && draft.startDate <= draft.endDate &&
+    (draft.holidayMode !== 'replace' || !!draft.holidayShiftType);
+
+  const updateBlock = (index: number, update: Partial<RotationPlan['blocks'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      blocks: prev.blocks.map((block, i) => i === index ? { ...block, ...update } : block)
+    }));
+  };
+
+  const inputSx = { bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: {
+          bgcolor: '#1e1e1e',
+          color: '#fff',
+          minWidth: 460,
+        },
+      }}
+    >
+      <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.title}</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.hint}</Typography>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500, mb: 1 }}>{t.sequence}</Typography>
+        {draft.blocks.map((block, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <TextField
+              type="number"
+              size="small"
+              value={block.days}
+              onChange={e => updateBlock(index, { days: Math.max(0, parseInt(e.target.value) || 0) })}
+              inputProps={{ min: '1' }}
+              sx={{ ...inputSx, width: 80 }}
+            />
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)' }}>×</Typography>
+            <Select
+              size="small"
+              value={block.shiftType || ''}
+              displayEmpty
+              onChange={e => updateBlock(index, { shiftType: e.target.value || undefined })}
+              sx={{ bgcolor: '#232323', color: '#fff', flexGrow: 1 }}
+            >
+              <MenuItem value="">{t.off}</MenuItem>
+              {shiftTypes.map(shift => (
+                <MenuItem key={shift.type} value={shift.type}>{getShiftLabel(shift, language)}</MenuItem>
+              ))}
+            </Select>
+            <IconButton
+              onClick={() => setDraft(prev => ({ ...prev, blocks: prev.blocks.filter((_, i) => i !== index) }))}
+              sx={{ color: '#ff5252' }}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ))}
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Button
+            startIcon={<AddIcon />}
+            onClick={() => setDraft(prev => ({ ...prev, blocks: [...prev.blocks, { shiftType: shiftTypes[0]?.type, days: 1 }] }))}
+            sx={{ color: '#00e676' }}
+          >
+            {t.addBlock}
+          </Button>
+          {cycleLength > 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '0.9rem' }}>
+              {t.cycleLength.replace('{count}', String(cycleLength))}
+            </Typography>
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, flexGrow: 1 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500 }}>{t.startDate}</Typography>
+            <TextField
+              type="date"
+              size="small"
+              value={draft.startDate}
+              onChange={e => setDraft(prev => ({ ...prev, startDate: e.target.value }))}
+              sx={inputSx}
+            />
+          </Box>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, flexGrow: 1 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500 }}>{t.endDate}</Typography>
+            <TextField
+              type="date"
+              size="small"
+              value={draft.endDate}
+              onChange={e => setDraft(prev => ({ ...prev, endDate: e.target.value }))}
+              sx={inputSx}
+            />
+          </Box>
+        </Box>
+        <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500, mb: 0.5 }}>{t.holidays}</Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <Select
+            size="small"
+            value={draft.holidayMode}
+            onChange={e => setDraft(prev => ({ ...prev, holidayMode: e.target.value as RotationHolidayMode }))}
+            sx={{ bgcolor: '#232323', color: '#fff', flexGrow: 1 }}
+          >
+            {(Object.keys(t.holidayModes) as RotationHolidayMode[]).map(mode => (
+              <MenuItem key={mode} value={mode}>{t.holidayModes[mode]}</MenuItem>
+            ))}
+          </Select>
+          {draft.holidayMode === 'replace' && (
+            <Select
+              size="small"
+              value={draft.holidayShiftType || ''}
+              onChange={e => setDraft(prev => ({ ...prev, holidayShiftType: e.target.value }))}
+              sx={{ bgcolor: '#232323', color: '#fff', flexGrow: 1 }}
+            >
+              {shiftTypes.map(shift => (
+                <MenuItem key={shift.type} value={shift.type}>{getShiftLabel(shift, language)}</MenuItem>
+              ))}
+            </Select>
+          )}
+        </Box>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={draft.overwrite}
+              onChange={e => setDraft(prev => ({ ...prev, overwrite: e.target.checked }))}
+              sx={{ color: 'rgba(255, 255, 255, 0.7)', '&.Mui-checked': { color: '#00e676' } }}
+            />
+          }
+          label={t.overwrite}
+          sx={{ color: 'rgba(255, 255, 255, 0.7)' }}
+        />
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+        <Button
+          onClick={() => onPreview(draft)}
+          disabled={!isValid}
+          variant="contained"
+          sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}
+        >
+          {t.preview}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RotationDialog;
@@ -19,6 +19,7 @@ import {
   Language as LanguageIcon,
   Download as DownloadIcon,
   Delete as DeleteIcon,
+  Add as AddIcon,
 } from '@mui/icons-material';
 import TextField from '@mui/material/TextField';
 import InputAdornment from '@mui/material/InputAdornment';
@@ -27,6 +28,13 @@ import Radio from '@mui/material/Radio';
 import RadioGroup from '@mui/material/RadioGroup';
 import FormControlLabel from '@mui/material/FormControlLabel';
 import FormLabel from '@mui/material/FormLabel';
+import Checkbox from '@mui/material/Checkbox';
+import { HolidayRegion, HOLIDAY_REGIONS, CustomHoliday } from './holidays';
+import { SupplementKind, SupplementSettings, PremiumWindow, OvertimeRules, HolidayPaySettings, RateChange, SalaryChange, SalarySettings, ShiftConfig, SUPPLEMENT_KINDS, toDateKey } from './payEngine';
+import { Job, JOB_COLORS } from './jobs';
+import { TaxMode, TaxSettings } from './tax';
+import { Deduction } from './deductions';
+import { PayPeriodSettings } from './payPeriods';
 
 interface SettingsProps {
   onLanguageChange: (lang: 'en' | 'no') => void;
@@ -34,14 +42,46 @@ interface SettingsProps {
   availableYears: number[];
   onYearlyDownload: (year: number) => void;
   onCurrencyChange?: (currency: { currency: string; position: 'before' | 'after' }) => void;
+  holidayRegion: HolidayRegion;
+  customHolidays: CustomHoliday[];
+  onHolidaySettingsChange?: (settings: { region: HolidayRegion; customHolidays: CustomHoliday[] }) => void;
+  supplements: SupplementSettings;
+  onSupplementsChange?: (supplements: SupplementSettings) => void;
+  premiumWindows: PremiumWindow[];
+  onPremiumWindowsChange?: (premiumWindows: PremiumWindow[]) => void;
+  overtimeRules: OvertimeRules;
+  onOvertimeRulesChange?: (overtimeRules: OvertimeRules) => void;
+  holidayPay: HolidayPaySettings;
+  onHolidayPayChange?: (holidayPay: HolidayPaySettings) => void;
+  taxSettings: TaxSettings;
+  onTaxSettingsChange?: (taxSettings: TaxSettings) => void;
+  deductions: Deduction[];
+  onDeductionsChange?: (deductions: Deduction[]) => void;
+  payPeriods: PayPeriodSettings;
+  onPayPeriodsChange?: (payPeriods: PayPeriodSettings) => void;
+  // The shift types of the view, for their arrears
+  shiftTypes: ShiftConfig[];
+  baseRate: number;
+  rateHistory: RateChange[];
+  onRateHistoryChange?: (settings: { baseRate: number; rateHistory: RateChange[] }) => void;
+  salary: SalarySettings;
+  onSalaryChange?: (salary: SalarySettings) => void;
+  onBackPayOpen?: () => void;
+  onBackupDownload?: () => void;
+  onRestoreOpen?: () => void;
+  onArchiveOpen?: () => void;
+  // Worked days are kept outside localStorage
+  onClearWorkedDays?: () => Promise<void>;
+  jobs: Job[];
+  usedJobIds: string[];
+  onJobsChange?: (jobs: Job[]) => void;
 }
 
-const DEFAULT_SHIFT_TYPES = [
-  { type: 'day', label: 'Day Shift', color: '#FFFFFF', hours: 7.4, overtimeMultiplier: 0, startTime: '06:00', endTime: '14:10' },
-  { type: 'evening', label: 'Evening Shift', color: '#22C55E', hours: 7.4, overtimeMultiplier: 50, startTime: '14:00', endTime: '22:10' },
-  { type: 'night', label: 'Night Shift', color: '#178838', hours: 7.4, overtimeMultiplier: 60, startTime: '22:00', endTime: '06:10' },
-  { type: 'overtime', label: 'Overtime', color: '#EF4444', hours: 10.1, overtimeMultiplier: 100, startTime: '11:30', endTime: '22:10' }
-];
+const mapSupplementsToDraft = (supplements: SupplementSettings) =>
+  SUPPLEMENT_KINDS.reduce((acc, kind) => ({
+    ...acc,
+    [kind]: { mode: supplements[kind].mode, value: supplements[kind].value.toString() }
+  }), {} as Record<SupplementKind, { mode: 'percent' | 'fixed'; value: string }>);
 
 const Settings: React.FC<SettingsProps> = ({
   onLanguageChange,
@@ -49,6 +89,37 @@ const Settings: React.FC<SettingsProps> = ({
   availableYears,
   onYearlyDownload,
   onCurrencyChange,
+  holidayRegion,
+  customHolidays,
+  onHolidaySettingsChange,
+  supplements,
+  onSupplementsChange,
+  premiumWindows,
+  onPremiumWindowsChange,
+  overtimeRules,
+  onOvertimeRulesChange,
+  holidayPay,
+  onHolidayPayChange,
+  taxSettings,
+  onTaxSettingsChange,
+  deductions,
+  onDeductionsChange,
+  payPeriods,
+  onPayPeriodsChange,
+  shiftTypes,
+  baseRate,
+  rateHistory,
+  onRateHistoryChange,
+  salary,
+  onSalaryChange,
+  onBackPayOpen,
+  onBackupDownload,
+  onRestoreOpen,
+  onArchiveOpen,
+  onClearWorkedDays,
+  jobs,
+  usedJobIds,
+  onJobsChange,
 }) => {
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [downloadDialogOpen, setDownloadDialogOpen] = useState(false);
@@ -61,6 +132,52 @@ const Settings: React.FC<SettingsProps> = ({
   const [currencyPosition, setCurrencyPosition] = useState<'before' | 'after'>('before');
   const currencyList = ['kr', '$', '€', '£', '¥', '₹', '₣', '₩', '₽'];
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
+  const [clearError, setClearError] = useState<string>();
+  const [holidayDialogOpen, setHolidayDialogOpen] = useState(false);
+  const [draftRegion, setDraftRegion] = useState<HolidayRegion>(holidayRegion);
+  const [draftCustomHolidays, setDraftCustomHolidays] = useState<CustomHoliday[]>(customHolidays);
+  const [newCustomHoliday, setNewCustomHoliday] = useState<CustomHoliday>({ date: '', name: '', recurring: false });
+  const [premiumDialogOpen, setPremiumDialogOpen] = useState(false);
+  const [draftPremiumWindows, setDraftPremiumWindows] = useState<PremiumWindow[]>(premiumWindows);
+  const [newPremiumWindow, setNewPremiumWindow] = useState({ name: '', start: '18:00', end: '21:00', ratePerHour: '' });
+  const [overtimeDialogOpen, setOvertimeDialogOpen] = useState(false);
+  const [draftOvertimeRules, setDraftOvertimeRules] = useState({ enabled: false, dailyLimit: '', weeklyLimit: '', rate: '' });
+  const [holidayPayDialogOpen, setHolidayPayDialogOpen] = useState(false);
+  const [draftHolidayPay, setDraftHolidayPay] = useState({ enabled: false, rate: '', payoutMonth: 5, deductionDays: '' });
+  const [taxDialogOpen, setTaxDialogOpen] = useState(false);
+  const [draftTax, setDraftTax] = useState({
+    enabled: false,
+    mode: 'flat' as TaxMode,
+    percentage: '',
+    brackets: [] as { from: string; rate: string }[],
+    halfTaxDecember: true
+  });
+  const [deductionDialogOpen, setDeductionDialogOpen] = useState(false);
+  const [draftDeductions, setDraftDeductions] = useState<Deduction[]>(deductions);
+  const [newDeduction, setNewDeduction] = useState({ name: '', percentage: '', fixedAmount: '', threshold: '', cap: '' });
+  const [payPeriodDialogOpen, setPayPeriodDialogOpen] = useState(false);
+  const [draftPayPeriods, setDraftPayPeriods] = useState({
+    enabled: false,
+    cutoffDay: '',
+    payoutDay: '',
+    shiftArrears: {} as Record<string, number>,
+    supplementArrears: 0
+  });
+  const [supplementDialogOpen, setSupplementDialogOpen] = useState(false);
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [salaryDialogOpen, setSalaryDialogOpen] = useState(false);
+  const [draftSalary, setDraftSalary] = useState({ enabled: false, monthlySalary: '', normHours: '', startDate: '' });
+  const [draftSalaryHistory, setDraftSalaryHistory] = useState<SalaryChange[]>(salary.history);
+  const [newSalaryChange, setNewSalaryChange] = useState({ effectiveFrom: '', monthlySalary: '' });
+  const [jobDialogOpen, setJobDialogOpen] = useState(false);
+  const [draftJobs, setDraftJobs] = useState<Job[]>(jobs);
+  const [newJob, setNewJob] = useState({ name: '', baseRate: '' });
+  const [draftBaseRate, setDraftBaseRate] = useState(baseRate.toString());
+  const [draftRateHistory, setDraftRateHistory] = useState<RateChange[]>(rateHistory);
+  const [newRateChange, setNewRateChange] = useState({ effectiveFrom: '', rate: '' });
+  const [draftSupplements, setDraftSupplements] = useState<Record<SupplementKind, { mode: 'percent' | 'fixed'; value: string }>>(
+    () => mapSupplementsToDraft(supplements)
+  );
 
   const handleClick = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -105,12 +222,351 @@ const Settings: React.FC<SettingsProps> = ({
     setCurrencyDialogOpen(false);
   };
 
+  const handleHolidayDialogOpen = () => {
+    setDraftRegion(holidayRegion);
+    setDraftCustomHolidays(customHolidays);
+    setNewCustomHoliday({ date: '', name: '', recurring: false });
+    setHolidayDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddCustomHoliday = () => {
+    if (!newCustomHoliday.date || !newCustomHoliday.name.trim()) return;
+    setDraftCustomHolidays(prev => [...prev, { ...newCustomHoliday, name: newCustomHoliday.name.trim() }]
+      .sort((a, b) => a.date.localeCompare(b.date)));
+    setNewCustomHoliday({ date: '', name: '', recurring: false });
+  };
+  const handleRemoveCustomHoliday = (index: number) => {
+    setDraftCustomHolidays(prev => prev.filter((_, i) => i !== index));
+  };
+  const handleHolidayDone = () => {
+    if (typeof onHolidaySettingsChange === 'function') {
+      onHolidaySettingsChange({ region: draftRegion, customHolidays: draftCustomHolidays });
+    }
+    setHolidayDialogOpen(false);
+  };
+
+  const handlePremiumDialogOpen = () => {
+    setDraftPremiumWindows(premiumWindows);
+    setNewPremiumWindow({ name: '', start: '18:00', end: '21:00', ratePerHour: '' });
+    setPremiumDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddPremiumWindow = () => {
+    const ratePerHour = parseFloat(newPremiumWindow.ratePerHour);
+    if (!newPremiumWindow.name.trim() || !newPremiumWindow.start || !newPremiumWindow.end || isNaN(ratePerHour) || ratePerHour <= 0) return;
+    setDraftPremiumWindows(prev => [...prev, {
+      id: `${Date.now().toString(36)}${prev.length}`,
+      name: newPremiumWindow.name.trim(),
+      start: newPremiumWindow.start,
+      end: newPremiumWindow.end,
+      ratePerHour
+    }]);
+    setNewPremiumWindow({ name: '', start: newPremiumWindow.end, end: newPremiumWindow.start, ratePerHour: '' });
+  };
+  const handlePremiumsDone = () => {
+    if (typeof onPremiumWindowsChange === 'function') {
+      onPremiumWindowsChange(draftPremiumWindows);
+    }
+    setPremiumDialogOpen(false);
+  };
+
+  const handleOvertimeDialogOpen = () => {
+    setDraftOvertimeRules({
+      enabled: overtimeRules.enabled,
+      dailyLimit: overtimeRules.dailyLimit.toString(),
+      weeklyLimit: overtimeRules.weeklyLimit.toString(),
+      rate: overtimeRules.rate.toString(),
+    });
+    setOvertimeDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleOvertimeDone = () => {
+    const dailyLimit = parseFloat(draftOvertimeRules.dailyLimit);
+    const weeklyLimit = parseFloat(draftOvertimeRules.weeklyLimit);
+    const rate = parseFloat(draftOvertimeRules.rate);
+    if (isNaN(dailyLimit) || dailyLimit <= 0 || isNaN(weeklyLimit) || weeklyLimit <= 0 || isNaN(rate) || rate < 0) return;
+    if (typeof onOvertimeRulesChange === 'function') {
+      onOvertimeRulesChange({ enabled: draftOvertimeRules.enabled, dailyLimit, weeklyLimit, rate });
+    }
+    setOvertimeDialogOpen(false);
+  };
+
+  const handleHolidayPayDialogOpen = () => {
+    setDraftHolidayPay({
+      enabled: holidayPay.enabled,
+      rate: holidayPay.rate.toString(),
+      payoutMonth: holidayPay.payoutMonth,
+      deductionDays: holidayPay.deductionDays.toString(),
+    });
+    setHolidayPayDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleHolidayPayDone = () => {
+    const rate = parseFloat(draftHolidayPay.rate);
+    const deductionDays = parseFloat(draftHolidayPay.deductionDays || '0');
+    if (isNaN(rate) || rate < 0 || isNaN(deductionDays) || deductionDays < 0) return;
+    if (typeof onHolidayPayChange === 'function') {
+      onHolidayPayChange({ enabled: draftHolidayPay.enabled, rate, payoutMonth: draftHolidayPay.payoutMonth, deductionDays });
+    }
+    setHolidayPayDialogOpen(false);
+  };
+
+  const handleTaxDialogOpen = () => {
+    setDraftTax({
+      enabled: taxSettings.enabled,
+      mode: taxSettings.mode,
+      percentage: taxSettings.percentage.toString(),
+      brackets: taxSettings.brackets.map(bracket => ({ from: bracket.from.toString(), rate: bracket.rate.toString() })),
+      halfTaxDecember: taxSettings.halfTaxDecember,
+    });
+    setTaxDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleTaxDone = () => {
+    const percentage = parseFloat(draftTax.percentage);
+    const brackets = draftTax.brackets
+      .map(bracket => ({ from: parseFloat(bracket.from), rate: parseFloat(bracket.rate) }))
+      .sort((a, b) => a.from - b.from);
+    if (isNaN(percentage) || percentage < 0 || percentage > 100) return;
+    if (brackets.some(bracket => isNaN(bracket.from) || bracket.from < 0 || isNaN(bracket.rate) || bracket.rate < 0 || bracket.rate > 100)) return;
+    if (draftTax.mode === 'table' && !brackets.length) return;
+    if (typeof onTaxSettingsChange === 'function') {
+      onTaxSettingsChange({ enabled: draftTax.enabled, mode: draftTax.mode, percentage, brackets, halfTaxDecember: draftTax.halfTaxDecember });
+    }
+    setTaxDialogOpen(false);
+  };
+
+  const handlePayPeriodDialogOpen = () => {
+    setDraftPayPeriods({
+      enabled: payPeriods.enabled,
+      cutoffDay: payPeriods.cutoffDay.toString(),
+      payoutDay: payPeriods.payoutDay.toString(),
+      shiftArrears: payPeriods.shiftArrears,
+      supplementArrears: payPeriods.supplementArrears,
+    });
+    setPayPeriodDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handlePayPeriodsDone = () => {
+    const cutoffDay = parseInt(draftPayPeriods.cutoffDay);
+    const payoutDay = parseInt(draftPayPeriods.payoutDay);
+    if (isNaN(cutoffDay) || cutoffDay < 1 || cutoffDay > 31 || isNaN(payoutDay) || payoutDay < 1 || payoutDay > 31) return;
+    if (typeof onPayPeriodsChange === 'function') {
+      onPayPeriodsChange({
+        enabled: draftPayPeriods.enabled,
+        cutoffDay,
+        payoutDay,
+        // Shift types paid with their period are left out
+        shiftArrears: Object.fromEntries(Object.entries(draftPayPeriods.shiftArrears).filter(([, months]) => months > 0)),
+        supplementArrears: draftPayPeriods.supplementArrears
+      });
+    }
+    setPayPeriodDialogOpen(false);
+  };
+
+  const handleDeductionDialogOpen = () => {
+    setDraftDeductions(deductions);
+    setNewDeduction({ name: '', percentage: '', fixedAmount: '', threshold: '', cap: '' });
+    setDeductionDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddDeduction = () => {
+    const percentage = parseFloat(newDeduction.percentage || '0');
+    const fixedAmount = parseFloat(newDeduction.fixedAmount || '0');
+    const threshold = parseFloat(newDeduction.threshold || '0');
+    const cap = newDeduction.cap ? parseFloat(newDeduction.cap) : undefined;
+    if (!newDeduction.name.trim() || isNaN(percentage) || percentage < 0 || percentage > 100 || isNaN(fixedAmount) || fixedAmount < 0) return;
+    if (isNaN(threshold) || threshold < 0 || (cap !== undefined && (isNaN(cap) || cap < 0))) return;
+    if (percentage === 0 && fixedAmount === 0) return;
+    setDraftDeductions(prev => [...prev, {
+      id: `${Date.now().toString(36)}${prev.length}`,
+      name: newDeduction.name.trim(),
+      percentage,
+      fixedAmount,
+      threshold,
+      ...(cap !== undefined ? { cap } : {})
+    }]);
+    setNewDeduction({ name: '', percentage: '', fixedAmount: '', threshold: '', cap: '' });
+  };
+  const handleDeductionsDone = () => {
+    if (typeof onDeductionsChange === 'function') {
+      onDeductionsChange(draftDeductions);
+    }
+    setDeductionDialogOpen(false);
+  };
+
+  const handleSupplementDialogOpen = () => {
+    setDraftSupplements(mapSupplementsToDraft(supplements));
+    setSupplementDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleSupplementsDone = () => {
+    const next = SUPPLEMENT_KINDS.reduce((acc, kind) => {
+      const value = parseFloat(draftSupplements[kind].value);
+      return {
+        ...acc,
+        [kind]: { mode: draftSupplements[kind].mode, value: !isNaN(value) && value >= 0 ? value : 0 }
+      };
+    }, {} as SupplementSettings);
+    if (typeof onSupplementsChange === 'function') {
+      onSupplementsChange(next);
+    }
+    setSupplementDialogOpen(false);
+  };
+
+  const handleRateDialogOpen = () => {
+    setDraftBaseRate(baseRate.toString());
+    setDraftRateHistory(rateHistory);
+    setNewRateChange({ effectiveFrom: '', rate: '' });
+    setRateDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddRateChange = () => {
+    const rate = parseFloat(newRateChange.rate);
+    if (!newRateChange.effectiveFrom || isNaN(rate) || rate <= 0) return;
+    setDraftRateHistory(prev => [
+      ...prev.filter(change => change.effectiveFrom !== newRateChange.effectiveFrom),
+      { effectiveFrom: newRateChange.effectiveFrom, rate }
+    ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)));
+    setNewRateChange({ effectiveFrom: '', rate: '' });
+  };
+  const handleRatesDone = () => {
+    const initialRate = parseFloat(draftBaseRate);
+    if (isNaN(initialRate) || initialRate <= 0) return;
+    if (typeof onRateHistoryChange === 'function') {
+      onRateHistoryChange({ baseRate: initialRate, rateHistory: draftRateHistory });
+    }
+    setRateDialogOpen(false);
+  };
+
+  const handleSalaryDialogOpen = () => {
+    setDraftSalary({
+      enabled: salary.enabled,
+      monthlySalary: salary.monthlySalary.toString(),
+      normHours: salary.normHours.toString(),
+      // A new salary starts with the current month
+      startDate: salary.startDate ? `${salary.startDate.slice(0, 7)}-01` : toDateKey(new Date(new Date().getFullYear(), new Date().getMonth(), 1))
+    });
+    setDraftSalaryHistory(salary.history);
+    setNewSalaryChange({ effectiveFrom: '', monthlySalary: '' });
+    setSalaryDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddSalaryChange = () => {
+    const monthlySalary = parseFloat(newSalaryChange.monthlySalary);
+    if (!newSalaryChange.effectiveFrom || isNaN(monthlySalary) || monthlySalary < 0) return;
+    setDraftSalaryHistory(prev => [
+      ...prev.filter(change => change.effectiveFrom !== newSalaryChange.effectiveFrom),
+      { effectiveFrom: newSalaryChange.effectiveFrom, monthlySalary }
+    ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)));
+    setNewSalaryChange({ effectiveFrom: '', monthlySalary: '' });
+  };
+  const handleSalaryDone = () => {
+    const monthlySalary = parseFloat(draftSalary.monthlySalary);
+    const normHours = parseFloat(draftSalary.normHours);
+    if (isNaN(monthlySalary) || monthlySalary < 0 || isNaN(normHours) || normHours <= 0 || !draftSalary.startDate) return;
+    if (typeof onSalaryChange === 'function') {
+      onSalaryChange({
+        enabled: draftSalary.enabled,
+        monthlySalary,
+        normHours,
+        startDate: draftSalary.startDate,
+        history: draftSalaryHistory
+      });
+    }
+    setSalaryDialogOpen(false);
+  };
+
+  const handleJobDialogOpen = () => {
+    setDraftJobs(jobs);
+    setNewJob({ name: '', baseRate: '' });
+    setJobDialogOpen(true);
+    setAnchorEl(null);
+  };
+  const handleAddJob = () => {
+    const baseRate = parseFloat(newJob.baseRate);
+    if (!newJob.name.trim() || isNaN(baseRate) || baseRate <= 0) return;
+    setDraftJobs(prev => [...prev, {
+      id: `job${Date.now().toString(36)}`,
+      name: newJob.name.trim(),
+      color: JOB_COLORS[prev.length % JOB_COLORS.length],
+      baseRate,
+      rateHistory: []
+    }]);
+    setNewJob({ name: '', baseRate: '' });
+  };
+  const updateDraftJob = (jobId: string, values: Partial<Job>) => {
+    setDraftJobs(prev => prev.map(job => job.id === jobId ? { ...job, ...values } : job));
+  };
+  const handleJobsDone = () => {
+    if (draftJobs.some(job => !job.name.trim())) return;
+    if (typeof onJobsChange === 'function') {
+      onJobsChange(draftJobs.map(job => ({ ...job, name: job.name.trim() })));
+    }
+    setJobDialogOpen(false);
+  };
+
+  const handleBackPayClick = () => {
+    if (typeof onBackPayOpen === 'function') {
+      onBackPayOpen();
+    }
+    handleClose();
+  };
+
+  const handleBackupClick = () => {
+    if (typeof onBackupDownload === 'function') {
+      onBackupDownload();
+    }
+    handleClose();
+  };
+
+  const handleRestoreClick = () => {
+    if (typeof onRestoreOpen === 'function') {
+      onRestoreOpen();
+    }
+    handleClose();
+  };
+
+  const handleArchiveClick = () => {
+    if (typeof onArchiveOpen === 'function') {
+      onArchiveOpen();
+    }
+    handleClose();
+  };
+
+  // The worked days are cleared first, so nothing else is removed when that
+  // fails. Removed shift types fall back to the app's defaults on reload.
   const handleClearData = () => {
+    const cleared = typeof onClearWorkedDays === 'function' ? onClearWorkedDays() : Promise.resolve();
+    cleared
+      .then(() => {
+        removeStoredData();
+        window.location.reload();
+      })
+      .catch(error => setClearError(error instanceof Error ? error.message : String(error)));
+  };
+  const removeStoredData = () => {
     localStorage.removeItem('workedDays');
     localStorage.removeItem('currencyConfig');
     localStorage.removeItem('baseRate');
-    localStorage.setItem('shiftTypes', JSON.stringify(DEFAULT_SHIFT_TYPES));
-    window.location.reload();
+    localStorage.removeItem('holidayRegion');
+    localStorage.removeItem('customHolidays');
+    localStorage.removeItem('supplements');
+    localStorage.removeItem('premiumWindows');
+    localStorage.removeItem('overtimeRules');
+    localStorage.removeItem('rateHistory');
+    localStorage.removeItem('jobs');
+    localStorage.removeItem('selectedJobId');
+    localStorage.removeItem('rotationPlan');
+    localStorage.removeItem('vacationDays');
+    localStorage.removeItem('holidayPay');
+    localStorage.removeItem('taxSettings');
+    localStorage.removeItem('deductions');
+    localStorage.removeItem('payslips');
+    localStorage.removeItem('payPeriods');
+    localStorage.removeItem('showByPayout');
+    localStorage.removeItem('showNet');
+    localStorage.removeItem('shiftTypes');
   };
 
   const translations = {
@@ -129,6 +585,101 @@ const Settings: React.FC<SettingsProps> = ({
       after: 'after',
       beforeExample: (cur: string) => `${cur}2500`,
       afterExample: (cur: string) => `2500 ${cur}`,
+      holidays: '🎌 Holidays',
+      holidayCalendar: 'Holiday Calendar',
+      region: 'Country',
+      regionNames: { NO: 'Norway', SE: 'Sweden', DK: 'Denmark', GB: 'United Kingdom' } as Record<HolidayRegion, string>,
+      customDays: 'Extra days off',
+      customDaysHint: 'Company shutdowns, local holidays and other days that should count as red days.',
+      noCustomDays: 'No extra days added',
+      date: 'Date',
+      name: 'Name',
+      everyYear: 'Every year',
+      add: 'Add',
+      supplements: '💰 Supplements',
+      weekendHolidaySupplements: 'Weekend & Holiday Supplements',
+      supplementsHint: 'Added automatically to shifts on these days. A holiday supplement replaces the weekend supplement.',
+      supplementLabels: { saturday: 'Saturday', sunday: 'Sunday', holiday: 'Public holiday' } as Record<SupplementKind, string>,
+      percentOfBase: '% of base pay',
+      fixedPerHour: 'per hour',
+      premiums: '🌙 Evening & Night Premiums',
+      premiumWindows: 'Evening & Night Premiums',
+      premiumsHint: 'An extra amount per hour for the part of each shift that falls between these clock times. Windows may run past midnight.',
+      noPremiums: 'No premium windows added',
+      perHour: '/hour',
+      overtime: '⏱️ Overtime Rules',
+      overtimeRules: 'Overtime Rules',
+      overtimeHint: 'Hours above the daily limit, or above the weekly limit within a week (Monday to Sunday), are paid at the overtime rate.',
+      detectOvertime: 'Detect overtime automatically',
+      dailyLimit: 'Daily limit (hours)',
+      weeklyLimit: 'Weekly limit (hours)',
+      overtimeRate: 'Overtime rate (%)',
+      holidayPayMenu: '🏖️ Holiday Pay',
+      holidayPay: 'Holiday Pay',
+      holidayPayHint: 'Holiday pay is earned on last year\'s income and paid out once a year. 10.2% is the legal minimum, 12% applies with a 5-week vacation agreement.',
+      trackHolidayPay: 'Track holiday pay',
+      holidayPayRate: 'Rate (%)',
+      payoutMonth: 'Paid out in',
+      deductionDays: 'Vacation days deducted',
+      deductionDaysHint: 'With a fixed salary the pay for the vacation days is deducted in the payout month. Leave at 0 when vacation days are simply not paid.',
+      taxMenu: '🧮 Tax',
+      tax: 'Tax Withholding',
+      taxHint: 'An estimate of the tax withheld from each month\'s pay, used for the net figures on the dashboard and in exports. Use the numbers on your tax card.',
+      estimateTax: 'Estimate net pay',
+      flatTax: 'Percentage',
+      taxTable: 'Table',
+      taxPercentage: 'Withholding (%)',
+      bracketsHint: 'Each rate applies to the part of the monthly pay from its amount up to the next one.',
+      bracketFrom: 'From',
+      bracketRate: 'Rate (%)',
+      addBracket: 'Add bracket',
+      halfTaxDecember: 'Half tax in December',
+      payPeriodsMenu: '📅 Pay Periods',
+      payPeriods: 'Pay Periods',
+      payPeriodsHint: 'Work up to the cutoff day is paid on the payout day of the same month. Parts paid in arrears come one or more payouts later. Payouts on a weekend are made the Friday before.',
+      usePayPeriods: 'Group pay by payout date',
+      cutoffDay: 'Cutoff day (31 = end of month)',
+      payoutDay: 'Payout day',
+      arrears: 'Paid in arrears',
+      supplementArrears: 'Supplements, premiums and overtime',
+      withPeriod: 'With the period',
+      monthsLater: (months: number) => `${months} ${months === 1 ? 'month' : 'months'} later`,
+      deductionsMenu: '🧾 Deductions',
+      deductions: 'Deductions',
+      deductionsHint: 'Other deductions on your payslip, worked out on each month\'s gross pay. E.g. occupational pension (OTP) as 2% above a threshold, or union dues as a percentage with a monthly cap.',
+      noDeductions: 'No deductions added',
+      deductionPercentage: '%',
+      fixedAmount: 'Fixed',
+      threshold: 'Above',
+      cap: 'Cap',
+      perMonth: 'per month',
+      rates: '📈 Rate History',
+      rateHistory: 'Rate History',
+      rateHistoryHint: 'Each worked day is paid the rate valid on its date. Add a raise from the date it applies, earlier months keep their old rate.',
+      initialRate: 'Rate before the first change',
+      effectiveFrom: 'From',
+      noRateChanges: 'No rate changes added',
+      salaryMenu: '💼 Monthly Salary',
+      salary: 'Monthly Salary',
+      salaryHint: 'On a monthly salary the salary is paid for every whole month from the start month and covers the contracted hours. Only hours beyond the norm add to it, together with supplements, premiums and overtime, paid at the hourly rate of the salary divided by the norm. Months before the start are paid by the hour.',
+      salaryHistoryHint: 'Add a raise from the month it applies, earlier months keep their salary.',
+      noSalaryChanges: 'No salary changes added',
+      salaryPerMonth: '/month',
+      salaryStartDate: 'Paid from month',
+      useSalary: 'Paid a fixed monthly salary',
+      monthlySalary: 'Starting salary per month',
+      normHours: 'Contracted hours per month',
+      salaryHourlyRate: 'Hourly rate for extras',
+      backPay: '🧾 Back Pay Calculator',
+      archivedShiftTypes: '🗄️ Archived Shift Types',
+      backup: '💾 Backup',
+      restore: '♻️ Restore Backup',
+      jobsMenu: '💼 Jobs',
+      jobs: 'Jobs',
+      jobsHint: 'Each job has its own base rate, shift types and currency. Leave the currency empty to use the app currency. A job with worked days cannot be removed.',
+      appCurrency: 'App currency',
+      newJobName: 'New job',
+      baseRate: 'Base rate',
     },
     no: {
       downloadYearlyData: 'Last ned data for året',
@@ -145,6 +696,101 @@ const Settings: React.FC<SettingsProps> = ({
       after: 'etter',
       beforeExample: (cur: string) => `${cur}2500`,
       afterExample: (cur: string) => `2500 ${cur}`,
+      holidays: '🎌 Helligdager',
+      holidayCalendar: 'Helligdagskalender',
+      region: 'Land',
+      regionNames: { NO: 'Norge', SE: 'Sverige', DK: 'Danmark', GB: 'Storbritannia' } as Record<HolidayRegion, string>,
+      customDays: 'Ekstra fridager',
+      customDaysHint: 'Fellesferie, lokale helligdager og andre dager som skal regnes som røde dager.',
+      noCustomDays: 'Ingen ekstra dager lagt til',
+      date: 'Dato',
+      name: 'Navn',
+      everyYear: 'Hvert år',
+      add: 'Legg til',
+      supplements: '💰 Tillegg',
+      weekendHolidaySupplements: 'Helge- og helligdagstillegg',
+      supplementsHint: 'Legges automatisk til vakter på disse dagene. Helligdagstillegg erstatter helgetillegg.',
+      supplementLabels: { saturday: 'Lørdag', sunday: 'Søndag', holiday: 'Helligdag' } as Record<SupplementKind, string>,
+      percentOfBase: '% av grunnlønn',
+      fixedPerHour: 'per time',
+      premiums: '🌙 Kvelds- og nattillegg',
+      premiumWindows: 'Kvelds- og nattillegg',
+      premiumsHint: 'Et tillegg per time for den delen av vakten som faller mellom disse klokkeslettene. Tidsrom kan gå over midnatt.',
+      noPremiums: 'Ingen tillegg lagt til',
+      perHour: '/time',
+      overtime: '⏱️ Overtidsregler',
+      overtimeRules: 'Overtidsregler',
+      overtimeHint: 'Timer over dagsgrensen, eller over ukegrensen innen en uke (mandag til søndag), betales med overtidssatsen.',
+      detectOvertime: 'Finn overtid automatisk',
+      dailyLimit: 'Dagsgrense (timer)',
+      weeklyLimit: 'Ukegrense (timer)',
+      overtimeRate: 'Overtidstillegg (%)',
+      holidayPayMenu: '🏖️ Feriepenger',
+      holidayPay: 'Feriepenger',
+      holidayPayHint: 'Feriepenger opptjenes på fjorårets inntekt og betales ut én gang i året. 10,2 % er lovens minimum, 12 % gjelder med avtale om 5 ukers ferie.',
+      trackHolidayPay: 'Beregn feriepenger',
+      holidayPayRate: 'Sats (%)',
+      payoutMonth: 'Utbetales i',
+      deductionDays: 'Feriedager i ferietrekk',
+      deductionDaysHint: 'Med fast lønn trekkes lønnen for feriedagene i utbetalingsmåneden. La stå på 0 når feriedager bare ikke blir betalt.',
+      taxMenu: '🧮 Skatt',
+      tax: 'Skattetrekk',
+      taxHint: 'Et anslag på skattetrekket i hver måneds lønn, brukt til nettotallene på oversikten og i eksporter. Bruk tallene fra skattekortet ditt.',
+      estimateTax: 'Beregn nettolønn',
+      flatTax: 'Prosent',
+      taxTable: 'Tabell',
+      taxPercentage: 'Skattetrekk (%)',
+      bracketsHint: 'Hver sats gjelder delen av månedslønnen fra beløpet sitt opp til det neste.',
+      bracketFrom: 'Fra',
+      bracketRate: 'Sats (%)',
+      addBracket: 'Legg til trinn',
+      halfTaxDecember: 'Halv skatt i desember',
+      payPeriodsMenu: '📅 Lønnsperioder',
+      payPeriods: 'Lønnsperioder',
+      payPeriodsHint: 'Arbeid til og med skjæringsdagen utbetales på utbetalingsdagen samme måned. Deler som betales etterskuddsvis kommer én eller flere utbetalinger senere. Utbetalinger som faller på en helg skjer fredagen før.',
+      usePayPeriods: 'Grupper lønn etter utbetalingsdato',
+      cutoffDay: 'Skjæringsdag (31 = månedsslutt)',
+      payoutDay: 'Utbetalingsdag',
+      arrears: 'Betales etterskuddsvis',
+      supplementArrears: 'Tillegg og overtid',
+      withPeriod: 'Med perioden',
+      monthsLater: (months: number) => `${months} ${months === 1 ? 'måned' : 'måneder'} senere`,
+      deductionsMenu: '🧾 Trekk',
+      deductions: 'Trekk',
+      deductionsHint: 'Andre trekk på lønnsslippen, beregnet av hver måneds bruttolønn. F.eks. obligatorisk tjenestepensjon (OTP) som 2 % over en grense, eller fagforeningskontingent som en prosent med et tak per måned.',
+      noDeductions: 'Ingen trekk lagt til',
+      deductionPercentage: '%',
+      fixedAmount: 'Fast',
+      threshold: 'Over',
+      cap: 'Tak',
+      perMonth: 'per måned',
+      rates: '📈 Lønnshistorikk',
+      rateHistory: 'Lønnshistorikk',
+      rateHistoryHint: 'Hver arbeidsdag betales med satsen som gjaldt den dagen. Legg inn et lønnstillegg fra datoen det gjelder, tidligere måneder beholder den gamle satsen.',
+      initialRate: 'Sats før første endring',
+      effectiveFrom: 'Fra',
+      noRateChanges: 'Ingen lønnsendringer lagt til',
+      salaryMenu: '💼 Fastlønn',
+      salary: 'Fastlønn',
+      salaryHint: 'Med fastlønn utbetales lønnen for hver hele måned fra startmåneden og dekker de avtalte timene. Bare timer utover normen kommer i tillegg, sammen med tillegg og overtid, betalt med timesatsen lønnen delt på normen gir. Måneder før starten betales per time.',
+      salaryHistoryHint: 'Legg inn et lønnstillegg fra måneden det gjelder, tidligere måneder beholder lønnen sin.',
+      noSalaryChanges: 'Ingen lønnsendringer lagt til',
+      salaryPerMonth: '/mnd',
+      salaryStartDate: 'Betales fra måned',
+      useSalary: 'Har fast månedslønn',
+      monthlySalary: 'Startlønn per måned',
+      normHours: 'Avtalte timer per måned',
+      salaryHourlyRate: 'Timesats for tillegg',
+      backPay: '🧾 Etterbetaling',
+      archivedShiftTypes: '🗄️ Arkiverte vakttyper',
+      backup: '💾 Sikkerhetskopi',
+      restore: '♻️ Gjenopprett sikkerhetskopi',
+      jobsMenu: '💼 Jobber',
+      jobs: 'Jobber',
+      jobsHint: 'Hver jobb har egen grunnlønn, egne vakttyper og egen valuta. La valuta stå tom for å bruke appens valuta. En jobb med arbeidsdager kan ikke fjernes.',
+      appCurrency: 'Appens valuta',
+      newJobName: 'Ny jobb',
+      baseRate: 'Grunnlønn',
     },
   };
 
@@ -206,12 +852,87 @@ const Settings: React.FC<SettingsProps> = ({
             <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.changeCurrency}</Typography>
           </Box>
         </MenuItem>
+        <MenuItem onClick={handleHolidayDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.holidays}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handlePremiumDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.premiums}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleOvertimeDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.overtime}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleHolidayPayDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.holidayPayMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleTaxDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.taxMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handlePayPeriodDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.payPeriodsMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleDeductionDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.deductionsMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleJobDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.jobsMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleRateDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.rates}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleSalaryDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.salaryMenu}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleBackPayClick}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.backPay}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleArchiveClick}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.archivedShiftTypes}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleSupplementDialogOpen}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.supplements}</Typography>
+          </Box>
+        </MenuItem>
         <MenuItem onClick={handleDownloadClick}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <DownloadIcon sx={{ fontSize: '1.5rem' }} />
             <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.downloadYearlyData}</Typography>
           </Box>
         </MenuItem>
+        <MenuItem onClick={handleBackupClick}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.backup}</Typography>
+          </Box>
+        </MenuItem>
+        <MenuItem onClick={handleRestoreClick}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontSize: '1.15rem', fontWeight: 500 }}>{t.restore}</Typography>
+          </Box>
+        </MenuItem>
         <MenuItem onClick={() => setClearDialogOpen(true)}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <DeleteIcon sx={{ fontSize: '1.5rem', color: '#ff5252' }} />
@@ -374,9 +1095,884 @@ const Settings: React.FC<SettingsProps> = ({
         </DialogActions>
       </Dialog>
 
+      <Dialog
+        open={holidayDialogOpen}
+        onClose={() => setHolidayDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.holidayCalendar}</DialogTitle>
+        <DialogContent>
+          <FormControl fullWidth sx={{ mt: 2 }}>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', mb: 1, fontWeight: 500 }}>
+              {t.region}
+            </Typography>
+            <Select
+              value={draftRegion}
+              onChange={e => setDraftRegion(e.target.value as HolidayRegion)}
+              sx={{
+                color: '#fff',
+                '& .MuiOutlinedInput-notchedOutline': {
+                  borderColor: 'rgba(255, 255, 255, 0.23)',
+                },
+                '&:hover .MuiOutlinedInput-notchedOutline': {
+                  borderColor: 'rgba(255, 255, 255, 0.23)',
+                },
+                '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                  borderColor: '#00e676',
+                },
+              }}
+            >
+              {HOLIDAY_REGIONS.map(region => (
+                <MenuItem key={region} value={region}>{t.regionNames[region]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ mt: 3 }}>
+            <FormLabel sx={{ color: '#fff', mb: 0.5, display: 'block' }}>{t.customDays}</FormLabel>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.customDaysHint}</Typography>
+            {draftCustomHolidays.length === 0 && (
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic', mb: 1 }}>{t.noCustomDays}</Typography>
+            )}
+            {draftCustomHolidays.map((custom, index) => (
+              <Box key={`${custom.date}-${index}`} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography sx={{ color: '#ff6b6b', minWidth: 100 }}>
+                  {custom.recurring ? custom.date.slice(5) : custom.date}
+                </Typography>
+                <Typography sx={{ color: '#fff', flexGrow: 1 }}>
+                  {custom.name}{custom.recurring ? ` (${t.everyYear.toLowerCase()})` : ''}
+                </Typography>
+                <IconButton size="small" onClick={() => handleRemoveCustomHoliday(index)} sx={{ color: '#ff5252' }}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+              <TextField
+                type="date"
+                size="small"
+                value={newCustomHoliday.date}
+                onChange={e => setNewCustomHoliday(prev => ({ ...prev, date: e.target.value }))}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+              />
+              <TextField
+                size="small"
+                placeholder={t.name}
+                value={newCustomHoliday.name}
+                onChange={e => setNewCustomHoliday(prev => ({ ...prev, name: e.target.value }))}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+              />
+              <IconButton onClick={handleAddCustomHoliday} sx={{ color: '#00e676' }}>
+                <AddIcon />
+              </IconButton>
+            </Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={newCustomHoliday.recurring}
+                  onChange={e => setNewCustomHoliday(prev => ({ ...prev, recurring: e.target.checked }))}
+                  sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+                />
+              }
+              label={t.everyYear}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setHolidayDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleHolidayDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={premiumDialogOpen}
+        onClose={() => setPremiumDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.premiumWindows}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.premiumsHint}</Typography>
+          {draftPremiumWindows.length === 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic', mb: 1 }}>{t.noPremiums}</Typography>
+          )}
+          {draftPremiumWindows.map(window => (
+            <Box key={window.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography sx={{ color: '#fff', flexGrow: 1 }}>{window.name}</Typography>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)' }}>{window.start}-{window.end}</Typography>
+              <Typography sx={{ color: '#00e676', minWidth: 80, textAlign: 'right' }}>+{window.ratePerHour}{t.perHour}</Typography>
+              <IconButton size="small" onClick={() => setDraftPremiumWindows(prev => prev.filter(w => w.id !== window.id))} sx={{ color: '#ff5252' }}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <TextField
+              size="small"
+              placeholder={t.name}
+              value={newPremiumWindow.name}
+              onChange={e => setNewPremiumWindow(prev => ({ ...prev, name: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+            />
+            <TextField
+              type="time"
+              size="small"
+              value={newPremiumWindow.start}
+              onChange={e => setNewPremiumWindow(prev => ({ ...prev, start: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+            />
+            <TextField
+              type="time"
+              size="small"
+              value={newPremiumWindow.end}
+              onChange={e => setNewPremiumWindow(prev => ({ ...prev, end: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              placeholder={t.perHour}
+              value={newPremiumWindow.ratePerHour}
+              onChange={e => setNewPremiumWindow(prev => ({ ...prev, ratePerHour: e.target.value }))}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 90 }}
+            />
+            <IconButton onClick={handleAddPremiumWindow} sx={{ color: '#00e676' }}>
+              <AddIcon />
+            </IconButton>
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setPremiumDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handlePremiumsDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={overtimeDialogOpen}
+        onClose={() => setOvertimeDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.overtimeRules}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.overtimeHint}</Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftOvertimeRules.enabled}
+                onChange={e => setDraftOvertimeRules(prev => ({ ...prev, enabled: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.detectOvertime}
+          />
+          {([['dailyLimit', t.dailyLimit], ['weeklyLimit', t.weeklyLimit], ['rate', t.overtimeRate]] as const).map(([key, label]) => (
+            <Box key={key} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+              <Typography sx={{ color: '#fff', fontWeight: 500 }}>{label}</Typography>
+              <TextField
+                type="number"
+                size="small"
+                disabled={!draftOvertimeRules.enabled}
+                value={draftOvertimeRules[key]}
+                onChange={e => setDraftOvertimeRules(prev => ({ ...prev, [key]: e.target.value }))}
+                inputProps={{ min: '0' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+              />
+            </Box>
+          ))}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setOvertimeDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleOvertimeDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={holidayPayDialogOpen}
+        onClose={() => setHolidayPayDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.holidayPay}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.holidayPayHint}</Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftHolidayPay.enabled}
+                onChange={e => setDraftHolidayPay(prev => ({ ...prev, enabled: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.trackHolidayPay}
+          />
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+            <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t.holidayPayRate}</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              {['10.2', '12'].map(rate => (
+                <Button
+                  key={rate}
+                  size="small"
+                  disabled={!draftHolidayPay.enabled}
+                  onClick={() => setDraftHolidayPay(prev => ({ ...prev, rate }))}
+                  sx={{ color: draftHolidayPay.rate === rate ? '#00e676' : 'rgba(255,255,255,0.7)', minWidth: 0 }}
+                >
+                  {rate}%
+                </Button>
+              ))}
+              <TextField
+                type="number"
+                size="small"
+                disabled={!draftHolidayPay.enabled}
+                value={draftHolidayPay.rate}
+                onChange={e => setDraftHolidayPay(prev => ({ ...prev, rate: e.target.value }))}
+                inputProps={{ min: '0', step: '0.1' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+            <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t.payoutMonth}</Typography>
+            <Select
+              size="small"
+              disabled={!draftHolidayPay.enabled}
+              value={draftHolidayPay.payoutMonth}
+              onChange={e => setDraftHolidayPay(prev => ({ ...prev, payoutMonth: Number(e.target.value) }))}
+              sx={{ bgcolor: '#232323', color: '#fff', width: 160 }}
+            >
+              {Array.from({ length: 12 }, (_, month) => (
+                <MenuItem key={month} value={month}>
+                  {new Date(2000, month, 1).toLocaleString(currentLanguage === 'no' ? 'nb-NO' : 'en-US', { month: 'long' })}
+                </MenuItem>
+              ))}
+            </Select>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+            <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t.deductionDays}</Typography>
+            <TextField
+              type="number"
+              size="small"
+              disabled={!draftHolidayPay.enabled}
+              value={draftHolidayPay.deductionDays}
+              onChange={e => setDraftHolidayPay(prev => ({ ...prev, deductionDays: e.target.value }))}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+            />
+          </Box>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '0.85rem', mt: 1 }}>{t.deductionDaysHint}</Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setHolidayPayDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleHolidayPayDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={taxDialogOpen}
+        onClose={() => setTaxDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.tax}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.taxHint}</Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftTax.enabled}
+                onChange={e => setDraftTax(prev => ({ ...prev, enabled: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.estimateTax}
+          />
+          <RadioGroup
+            row
+            value={draftTax.mode}
+            onChange={e => setDraftTax(prev => ({ ...prev, mode: e.target.value as TaxMode }))}
+          >
+            <FormControlLabel
+              value="flat"
+              disabled={!draftTax.enabled}
+              control={<Radio sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }} />}
+              label={t.flatTax}
+            />
+            <FormControlLabel
+              value="table"
+              disabled={!draftTax.enabled}
+              control={<Radio sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }} />}
+              label={t.taxTable}
+            />
+          </RadioGroup>
+          {draftTax.mode === 'flat' ? (
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+              <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t.taxPercentage}</Typography>
+              <TextField
+                type="number"
+                size="small"
+                disabled={!draftTax.enabled}
+                value={draftTax.percentage}
+                onChange={e => setDraftTax(prev => ({ ...prev, percentage: e.target.value }))}
+                inputProps={{ min: '0', max: '100', step: '0.5' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+              />
+            </Box>
+          ) : (
+            <Box sx={{ mt: 1 }}>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '0.85rem', mb: 1 }}>{t.bracketsHint}</Typography>
+              {draftTax.brackets.map((bracket, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <TextField
+                    type="number"
+                    size="small"
+                    label={t.bracketFrom}
+                    disabled={!draftTax.enabled}
+                    value={bracket.from}
+                    onChange={e => setDraftTax(prev => ({
+                      ...prev,
+                      brackets: prev.brackets.map((b, i) => i === index ? { ...b, from: e.target.value } : b)
+                    }))}
+                    inputProps={{ min: '0' }}
+                    InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)' } }}
+                    sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+                  />
+                  <TextField
+                    type="number"
+                    size="small"
+                    label={t.bracketRate}
+                    disabled={!draftTax.enabled}
+                    value={bracket.rate}
+                    onChange={e => setDraftTax(prev => ({
+                      ...prev,
+                      brackets: prev.brackets.map((b, i) => i === index ? { ...b, rate: e.target.value } : b)
+                    }))}
+                    inputProps={{ min: '0', max: '100' }}
+                    InputLabelProps={{ sx: { color: 'rgba(255, 255, 255, 0.7)' } }}
+                    sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+                  />
+                  <IconButton
+                    size="small"
+                    disabled={!draftTax.enabled}
+                    onClick={() => setDraftTax(prev => ({ ...prev, brackets: prev.brackets.filter((_, i) => i !== index) }))}
+                    sx={{ color: '#ff5252' }}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button
+                startIcon={<AddIcon />}
+                disabled={!draftTax.enabled}
+                onClick={() => setDraftTax(prev => ({ ...prev, brackets: [...prev.brackets, { from: '', rate: '' }] }))}
+                sx={{ color: '#00e676' }}
+              >
+                {t.addBracket}
+              </Button>
+            </Box>
+          )}
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftTax.halfTaxDecember}
+                disabled={!draftTax.enabled}
+                onChange={e => setDraftTax(prev => ({ ...prev, halfTaxDecember: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.halfTaxDecember}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setTaxDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleTaxDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={payPeriodDialogOpen}
+        onClose={() => setPayPeriodDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.payPeriods}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.payPeriodsHint}</Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftPayPeriods.enabled}
+                onChange={e => setDraftPayPeriods(prev => ({ ...prev, enabled: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.usePayPeriods}
+          />
+          {(['cutoffDay', 'payoutDay'] as const).map(field => (
+            <Box key={field} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+              <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t[field]}</Typography>
+              <TextField
+                type="number"
+                size="small"
+                disabled={!draftPayPeriods.enabled}
+                value={draftPayPeriods[field]}
+                onChange={e => setDraftPayPeriods(prev => ({ ...prev, [field]: e.target.value }))}
+                inputProps={{ min: '1', max: '31' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+              />
+            </Box>
+          ))}
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontWeight: 500, mt: 3, mb: 1 }}>{t.arrears}</Typography>
+          {[
+            { key: 'supplements', label: t.supplementArrears, months: draftPayPeriods.supplementArrears },
+            ...shiftTypes.map(shift => ({
+              key: shift.type,
+              label: currentLanguage === 'no' ? shift.label : (shift.labelEn || shift.label),
+              months: draftPayPeriods.shiftArrears[shift.type] || 0
+            }))
+          ].map(row => (
+            <Box key={row.key} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+              <Typography sx={{ color: '#fff' }}>{row.label}</Typography>
+              <Select
+                size="small"
+                disabled={!draftPayPeriods.enabled}
+                value={row.months}
+                onChange={e => {
+                  const months = Number(e.target.value);
+                  setDraftPayPeriods(prev => row.key === 'supplements'
+                    ? { ...prev, supplementArrears: months }
+                    : { ...prev, shiftArrears: { ...prev.shiftArrears, [row.key]: months } });
+                }}
+                sx={{ bgcolor: '#232323', color: '#fff', width: 180 }}
+              >
+                {[0, 1, 2].map(months => (
+                  <MenuItem key={months} value={months}>{months === 0 ? t.withPeriod : t.monthsLater(months)}</MenuItem>
+                ))}
+              </Select>
+            </Box>
+          ))}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setPayPeriodDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handlePayPeriodsDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={deductionDialogOpen}
+        onClose={() => setDeductionDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.deductions}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.deductionsHint}</Typography>
+          {draftDeductions.length === 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic', mb: 1 }}>{t.noDeductions}</Typography>
+          )}
+          {draftDeductions.map(deduction => (
+            <Box key={deduction.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography sx={{ color: '#fff', flexGrow: 1 }}>{deduction.name}</Typography>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', textAlign: 'right' }}>
+                {[
+                  deduction.percentage > 0 && `${deduction.percentage}%${deduction.threshold > 0 ? ` ${t.threshold.toLowerCase()} ${deduction.threshold}` : ''}`,
+                  deduction.fixedAmount > 0 && `+${deduction.fixedAmount}`,
+                  deduction.cap !== undefined && `${t.cap.toLowerCase()} ${deduction.cap}`
+                ].filter(Boolean).join(', ')} {t.perMonth}
+              </Typography>
+              <IconButton size="small" onClick={() => setDraftDeductions(prev => prev.filter(d => d.id !== deduction.id))} sx={{ color: '#ff5252' }}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <TextField
+              size="small"
+              placeholder={t.name}
+              value={newDeduction.name}
+              onChange={e => setNewDeduction(prev => ({ ...prev, name: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+            />
+            <IconButton onClick={handleAddDeduction} sx={{ color: '#00e676' }}>
+              <AddIcon />
+            </IconButton>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            {(['percentage', 'threshold', 'fixedAmount', 'cap'] as const).map(field => (
+              <TextField
+                key={field}
+                type="number"
+                size="small"
+                placeholder={field === 'percentage' ? t.deductionPercentage : t[field]}
+                value={newDeduction[field]}
+                onChange={e => setNewDeduction(prev => ({ ...prev, [field]: e.target.value }))}
+                inputProps={{ min: '0' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 90 }}
+              />
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setDeductionDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleDeductionsDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={supplementDialogOpen}
+        onClose={() => setSupplementDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.weekendHolidaySupplements}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.supplementsHint}</Typography>
+          {SUPPLEMENT_KINDS.map(kind => (
+            <Box key={kind} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <Typography sx={{ color: '#fff', minWidth: 120, fontWeight: 500 }}>{t.supplementLabels[kind]}</Typography>
+              <TextField
+                type="number"
+                size="small"
+                value={draftSupplements[kind].value}
+                onChange={e => setDraftSupplements(prev => ({ ...prev, [kind]: { ...prev[kind], value: e.target.value } }))}
+                inputProps={{ min: '0' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 100 }}
+              />
+              <Select
+                size="small"
+                value={draftSupplements[kind].mode}
+                onChange={e => setDraftSupplements(prev => ({ ...prev, [kind]: { ...prev[kind], mode: e.target.value as 'percent' | 'fixed' } }))}
+                sx={{
+                  color: '#fff',
+                  bgcolor: '#232323',
+                  '& .MuiOutlinedInput-notchedOutline': {
+                    borderColor: 'rgba(255,255,255,0.23)',
+                  },
+                }}
+              >
+                <MenuItem value="percent">{t.percentOfBase}</MenuItem>
+                <MenuItem value="fixed">{t.fixedPerHour}</MenuItem>
+              </Select>
+            </Box>
+          ))}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setSupplementDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleSupplementsDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={jobDialogOpen}
+        onClose={() => setJobDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 420,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.jobs}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.jobsHint}</Typography>
+          {draftJobs.map(job => (
+            <Box key={job.id} sx={{ mb: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <TextField
+                  size="small"
+                  placeholder={t.name}
+                  value={job.name}
+                  onChange={e => updateDraftJob(job.id, { name: e.target.value })}
+                  sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: job.color }, flexGrow: 1 }}
+                />
+                <TextField
+                  size="small"
+                  placeholder={t.appCurrency}
+                  value={job.currency?.currency || ''}
+                  onChange={e => updateDraftJob(job.id, {
+                    currency: e.target.value.trim()
+                      ? { currency: e.target.value.trim(), position: job.currency?.position || 'after' }
+                      : undefined
+                  })}
+                  sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 120 }}
+                />
+                <Select
+                  size="small"
+                  value={job.currency?.position || 'after'}
+                  disabled={!job.currency}
+                  onChange={e => job.currency && updateDraftJob(job.id, {
+                    currency: { ...job.currency, position: e.target.value as 'before' | 'after' }
+                  })}
+                  sx={{ bgcolor: '#232323', color: '#fff', minWidth: 90 }}
+                >
+                  <MenuItem value="before">{t.before}</MenuItem>
+                  <MenuItem value="after">{t.after}</MenuItem>
+                </Select>
+                <IconButton
+                  size="small"
+                  disabled={draftJobs.length === 1 || usedJobIds.includes(job.id)}
+                  onClick={() => setDraftJobs(prev => prev.filter(j => j.id !== job.id))}
+                  sx={{ color: '#ff5252' }}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                {JOB_COLORS.map(color => (
+                  <Box
+                    key={color}
+                    onClick={() => updateDraftJob(job.id, { color })}
+                    sx={{
+                      width: 24,
+                      height: 24,
+                      borderRadius: '4px',
+                      bgcolor: color,
+                      cursor: 'pointer',
+                      border: job.color === color ? '2px solid #fff' : '2px solid rgba(255, 255, 255, 0.23)'
+                    }}
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <TextField
+              size="small"
+              placeholder={t.newJobName}
+              value={newJob.name}
+              onChange={e => setNewJob(prev => ({ ...prev, name: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              placeholder={t.baseRate}
+              value={newJob.baseRate}
+              onChange={e => setNewJob(prev => ({ ...prev, baseRate: e.target.value }))}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 120 }}
+            />
+            <IconButton onClick={handleAddJob} sx={{ color: '#00e676' }}>
+              <AddIcon />
+            </IconButton>
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setJobDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleJobsDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={rateDialogOpen}
+        onClose={() => setRateDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.rateHistory}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 2 }}>{t.rateHistoryHint}</Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <Typography sx={{ color: '#fff', flexGrow: 1 }}>{t.initialRate}</Typography>
+            <TextField
+              type="number"
+              size="small"
+              value={draftBaseRate}
+              onChange={e => setDraftBaseRate(e.target.value)}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 110 }}
+            />
+          </Box>
+          {draftRateHistory.length === 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic', mb: 1 }}>{t.noRateChanges}</Typography>
+          )}
+          {draftRateHistory.map(change => (
+            <Box key={change.effectiveFrom} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', flexGrow: 1 }}>{t.effectiveFrom} {change.effectiveFrom}</Typography>
+              <Typography sx={{ color: '#00e676', minWidth: 80, textAlign: 'right' }}>{change.rate}{t.perHour}</Typography>
+              <IconButton size="small" onClick={() => setDraftRateHistory(prev => prev.filter(c => c.effectiveFrom !== change.effectiveFrom))} sx={{ color: '#ff5252' }}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <TextField
+              type="date"
+              size="small"
+              value={newRateChange.effectiveFrom}
+              onChange={e => setNewRateChange(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              placeholder={t.perHour}
+              value={newRateChange.rate}
+              onChange={e => setNewRateChange(prev => ({ ...prev, rate: e.target.value }))}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 110 }}
+            />
+            <IconButton onClick={handleAddRateChange} sx={{ color: '#00e676' }}>
+              <AddIcon />
+            </IconButton>
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setRateDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleRatesDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog
+        open={salaryDialogOpen}
+        onClose={() => setSalaryDialogOpen(false)}
+        PaperProps={{
+          sx: {
+            bgcolor: '#1e1e1e',
+            color: '#fff',
+            minWidth: 360,
+          },
+        }}
+      >
+        <DialogTitle sx={{ color: '#00e676', textAlign: 'center', fontWeight: 700 }}>{t.salary}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mb: 1 }}>{t.salaryHint}</Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draftSalary.enabled}
+                onChange={e => setDraftSalary(prev => ({ ...prev, enabled: e.target.checked }))}
+                sx={{ color: '#00e676', '&.Mui-checked': { color: '#00e676' } }}
+              />
+            }
+            label={t.useSalary}
+          />
+          {(['monthlySalary', 'normHours'] as const).map(field => (
+            <Box key={field} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+              <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t[field]}</Typography>
+              <TextField
+                type="number"
+                size="small"
+                disabled={!draftSalary.enabled}
+                value={draftSalary[field]}
+                onChange={e => setDraftSalary(prev => ({ ...prev, [field]: e.target.value }))}
+                inputProps={{ min: '0' }}
+                sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 120 }}
+              />
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 2 }}>
+            <Typography sx={{ color: '#fff', fontWeight: 500 }}>{t.salaryStartDate}</Typography>
+            <TextField
+              type="month"
+              size="small"
+              disabled={!draftSalary.enabled}
+              value={draftSalary.startDate.slice(0, 7)}
+              onChange={e => setDraftSalary(prev => ({ ...prev, startDate: e.target.value && `${e.target.value}-01` }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' } }}
+            />
+          </Box>
+          <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', mt: 3, mb: 1 }}>{t.salaryHistoryHint}</Typography>
+          {draftSalaryHistory.length === 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontStyle: 'italic', mb: 1 }}>{t.noSalaryChanges}</Typography>
+          )}
+          {draftSalaryHistory.map(change => (
+            <Box key={change.effectiveFrom} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', flexGrow: 1 }}>{t.effectiveFrom} {change.effectiveFrom.slice(0, 7)}</Typography>
+              <Typography sx={{ color: '#00e676', minWidth: 80, textAlign: 'right' }}>{change.monthlySalary}</Typography>
+              <IconButton size="small" onClick={() => setDraftSalaryHistory(prev => prev.filter(c => c.effectiveFrom !== change.effectiveFrom))} sx={{ color: '#ff5252' }}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            <TextField
+              type="month"
+              size="small"
+              disabled={!draftSalary.enabled}
+              value={newSalaryChange.effectiveFrom.slice(0, 7)}
+              onChange={e => setNewSalaryChange(prev => ({ ...prev, effectiveFrom: e.target.value && `${e.target.value}-01` }))}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, flexGrow: 1 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              disabled={!draftSalary.enabled}
+              placeholder={t.salaryPerMonth}
+              value={newSalaryChange.monthlySalary}
+              onChange={e => setNewSalaryChange(prev => ({ ...prev, monthlySalary: e.target.value }))}
+              inputProps={{ min: '0' }}
+              sx={{ bgcolor: '#232323', borderRadius: 1, input: { color: '#fff' }, width: 110 }}
+            />
+            <IconButton onClick={handleAddSalaryChange} disabled={!draftSalary.enabled} sx={{ color: '#00e676' }}>
+              <AddIcon />
+            </IconButton>
+          </Box>
+          {parseFloat(draftSalary.normHours) > 0 && parseFloat(draftSalary.monthlySalary) >= 0 && (
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.7)', mt: 2 }}>
+              {t.salaryHourlyRate}: {(parseFloat(draftSalary.monthlySalary) / parseFloat(draftSalary.normHours)).toFixed(2)}{t.perHour}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setSalaryDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>{t.cancel}</Button>
+          <Button onClick={handleSalaryDone} variant="contained" sx={{ bgcolor: '#00e676', color: '#000', '&:hover': { bgcolor: '#00c853' } }}>{t.done}</Button>
+        </DialogActions>
+      </Dialog>
+
       <Dialog
         open={clearDialogOpen}
-        onClose={() => setClearDialogOpen(false)}
+        onClose={() => {
+          setClearDialogOpen(false);
+          setClearError(undefined);
+        }}
         PaperProps={{
           sx: {
             bgcolor: '#1e1e1e',
@@ -394,9 +1990,20 @@ const Settings: React.FC<SettingsProps> = ({
               ? 'Dette vil slette alle lagrede skift, kalenderdata og innstillinger, men beholde standard vakttyper.'
               : 'This will delete all saved shifts, calendar data, and settings, but keep the default shift types.'}
           </Typography>
+          {clearError && (
+            <Typography align="center" sx={{ color: '#ff5252' }}>
+              {currentLanguage === 'no' ? 'Dataene kunne ikke fjernes:' : 'The data could not be cleared:'} {clearError}
+            </Typography>
+          )}
         </DialogContent>
         <DialogActions sx={{ p: 2 }}>
-          <Button onClick={() => setClearDialogOpen(false)} sx={{ color: 'rgba(255,255,255,0.7)' }}>
+          <Button
+            onClick={() => {
+              setClearDialogOpen(false);
+              setClearError(undefined);
+            }}
+            sx={{ color: 'rgba(255,255,255,0.7)' }}
+          >
             {currentLanguage === 'no' ? 'Avbryt' : 'Cancel'}
           </Button>
           <Button onClick={handleClearData} variant="contained" sx={{ bgcolor: '#ff5252', color: '#fff', '&:hover': { bgcolor: '#d32f2f' } }}>
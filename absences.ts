@@ -0,0 +1,75 @@
+// Absence days: vacation, sick days and leave placed on the calendar like
+// shifts, and the yearly counters kept for them.
+
+import { AbsenceCategory, ShiftConfig, WorkedDays, getWorkDayStatus, toDateKey } from './payEngine';
+
+// Ferieloven gives 4 weeks and 1 day, counted as 25 working days
+export const DEFAULT_VACATION_DAYS = 25;
+
+// Self-certified sick days allowed within any 12 months
+export const SELF_CERTIFIED_LIMIT = 24;
+
+export const DEFAULT_ABSENCE_TYPES: ShiftConfig[] = [
+  { type: 'vacation', label: 'Ferie 🏖️', color: '#ffeb3b', hours: 0, overtimeMultiplier: 0, labelEn: 'Vacation 🏖️', absence: { category: 'vacation', pay: 'unpaid' } },
+  { type: 'self_certified', label: 'Egenmelding 🤒', color: '#ff9800', hours: 0, overtimeMultiplier: 0, labelEn: 'Self-certified sick day 🤒', absence: { category: 'selfCertified', pay: 'average' } },
+  { type: 'sick_leave', label: 'Sykemelding 🩺', color: '#795548', hours: 0, overtimeMultiplier: 0, labelEn: 'Sick leave 🩺', absence: { category: 'sickLeave', pay: 'thirdParty' } },
+  { type: 'leave', label: 'Permisjon 🗓️', color: '#607d8b', hours: 0, overtimeMultiplier: 0, labelEn: 'Leave 🗓️', absence: { category: 'leave', pay: 'unpaid' } }
+];
+
+export interface AbsenceCounters {
+  // Vacation days in the year already taken and still planned
+  vacationTaken: number;
+  vacationPlanned: number;
+  vacationRemaining: number;
+  // Self-certified sick days in the 12 months up to the counters' date
+  selfCertifiedUsed: number;
+}
+
+// Calendar dates from `from` to `to` (YYYY-MM-DD, inclusive) with an absence
+// of the category, and whether it has been taken yet. Cancelled and swapped
+// entries are not counted.
+const getAbsenceDates = (
+  workedDays: WorkedDays,
+  shiftTypes: ShiftConfig[],
+  category: AbsenceCategory,
+  from: string,
+  to: string,
+  today: Date
+): Map<string, boolean> => {
+  const types = shiftTypes.filter(shift => shift.absence?.category === category).map(shift => shift.type);
+  const dates = new Map<string, boolean>();
+  Object.keys(workedDays).map(Number).forEach(year => {
+    workedDays[year].forEach(wd => {
+      const status = getWorkDayStatus(year, wd, today);
+      if (!types.includes(wd.shiftType) || status === 'cancelled' || status === 'swapped') return;
+      const date = toDateKey(new Date(year, wd.month, wd.day));
+      if (date >= from && date <= to) dates.set(date, dates.get(date) || status === 'worked');
+    });
+  });
+  return dates;
+};
+
+// Counters for a year. The sick day window ends today, or at the end of the
+// year for past years.
+export const getAbsenceCounters = (
+  workedDays: WorkedDays,
+  shiftTypes: ShiftConfig[],
+  year: number,
+  vacationDays: number,
+  today: Date = new Date()
+): AbsenceCounters => {
+  const vacation = [...getAbsenceDates(workedDays, shiftTypes, 'vacation', `${year}-01-01`, `${year}-12-31`, today).values()];
+  const vacationTaken = vacation.filter(taken => taken).length;
+  const vacationPlanned = vacation.length - vacationTaken;
+
+  const windowEnd = year < today.getFullYear() ? new Date(year, 11, 31) : today;
+  const windowStart = new Date(windowEnd.getFullYear() - 1, windowEnd.getMonth(), windowEnd.getDate() + 1);
+  const selfCertifiedUsed = getAbsenceDates(workedDays, shiftTypes, 'selfCertified', toDateKey(windowStart), toDateKey(windowEnd), today).size;
+
+  return {
+    vacationTaken,
+    vacationPlanned,
+    vacationRemaining: Math.max(0, vacationDays - vacation.length),
+    selfCertifiedUsed
+  };
+};
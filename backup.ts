@@ -0,0 +1,197 @@
+// Backups of all app data as one versioned JSON file, and restoring them by
+// replacing the current data or merging the two.
+
+import { WorkDay, WorkedDays, ShiftConfig, SupplementSettings, PremiumWindow, OvertimeRules, HolidayPaySettings } from './payEngine';
+import { HolidayRegion, HOLIDAY_REGIONS, CustomHoliday } from './holidays';
+import { Job, CurrencyConfig, getJobId } from './jobs';
+import { isArray, isPlainObject } from './storage';
+import { TaxSettings } from './tax';
+import { Deduction } from './deductions';
+import { Payslip } from './payslips';
+import { PayPeriodSettings } from './payPeriods';
+
+export const BACKUP_FORMAT = 'jobbtid-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  workedDays: WorkedDays;
+  shiftTypes: ShiftConfig[];
+  jobs: Job[];
+  supplements: SupplementSettings;
+  premiumWindows: PremiumWindow[];
+  overtimeRules: OvertimeRules;
+  currencyConfig: CurrencyConfig;
+  holidayRegion: HolidayRegion;
+  customHolidays: CustomHoliday[];
+  language: 'en' | 'no';
+  selectedJobId: string;
+  // Missing in backups made before these settings were added
+  vacationDays?: number;
+  holidayPay?: HolidayPaySettings;
+  taxSettings?: TaxSettings;
+  deductions?: Deduction[];
+  payslips?: Payslip[];
+  payPeriods?: PayPeriodSettings;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
+
+export type BackupProblem = 'unreadable' | 'invalidJson' | 'notBackup' | 'newerVersion' | 'invalidData';
+
+export const createBackup = (data: BackupData, now = new Date()): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: now.toISOString(),
+  data
+});
+
+const isWorkDay = (value: unknown): value is WorkDay =>
+  isPlainObject(value) &&
+  typeof (value as WorkDay).day === 'number' &&
+  typeof (value as WorkDay).month === 'number' &&
+  typeof (value as WorkDay).shiftType === 'string';
+
+const isBackupData = (data: unknown): data is BackupData => {
+  if (!isPlainObject(data)) return false;
+  const d = data as BackupData;
+  return isPlainObject(d.workedDays) &&
+    Object.keys(d.workedDays).every(year => !isNaN(Number(year))) &&
+    Object.values(d.workedDays).every(days => isArray(days) && days.every(isWorkDay)) &&
+    isArray(d.shiftTypes) && d.shiftTypes.every(shift => isPlainObject(shift) && typeof shift.type === 'string') &&
+    isArray(d.jobs) && d.jobs.length > 0 &&
+    d.jobs.every(job => isPlainObject(job) && typeof job.id === 'string' && typeof job.baseRate === 'number') &&
+    isPlainObject(d.supplements) &&
+    isArray(d.premiumWindows) &&
+    isPlainObject(d.overtimeRules) &&
+    isPlainObject(d.currencyConfig) &&
+    HOLIDAY_REGIONS.includes(d.holidayRegion) &&
+    isArray(d.customHolidays) &&
+    (d.language === 'en' || d.language === 'no') &&
+    typeof d.selectedJobId === 'string' &&
+    (d.vacationDays === undefined || typeof d.vacationDays === 'number') &&
+    (d.holidayPay === undefined || isPlainObject(d.holidayPay)) &&
+    (d.taxSettings === undefined || isPlainObject(d.taxSettings)) &&
+    (d.deductions === undefined || isArray(d.deductions)) &&
+    (d.payslips === undefined || isArray(d.payslips)) &&
+    (d.payPeriods === undefined || isPlainObject(d.payPeriods));
+};
+
+export const parseBackup = (text: string): { backup?: Backup; problem?: BackupProblem } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { problem: 'invalidJson' };
+  }
+  if (!isPlainObject(parsed) || (parsed as Backup).format !== BACKUP_FORMAT) return { problem: 'notBackup' };
+  const backup = parsed as Backup;
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) return { problem: 'newerVersion' };
+  if (!isBackupData(backup.data)) return { problem: 'invalidData' };
+  return { backup };
+};
+
+const SETTING_KEYS = [
+  'supplements',
+  'premiumWindows',
+  'overtimeRules',
+  'currencyConfig',
+  'holidayRegion',
+  'customHolidays',
+  'language',
+  'vacationDays',
+  'holidayPay',
+  'taxSettings',
+  'deductions',
+  'payPeriods'
+] as const;
+
+export type BackupSetting = typeof SETTING_KEYS[number];
+
+export interface RestoreSummary {
+  years: number[];
+  entries: number;
+  // Days with entries only in the backup
+  newDays: number;
+  // Days with entries in both that differ; merging keeps the current ones
+  conflictingDays: number;
+  // Days with entries only in the current data; replacing removes them
+  removedDays: number;
+  newShiftTypes: number;
+  newJobs: number;
+  changedSettings: BackupSetting[];
+}
+
+const dayKey = (wd: WorkDay) => `${wd.month}-${wd.day}`;
+
+const groupByDay = (days: WorkDay[]): Map<string, WorkDay[]> =>
+  days.reduce((acc, wd) => acc.set(dayKey(wd), [...(acc.get(dayKey(wd)) || []), wd]), new Map<string, WorkDay[]>());
+
+const getYears = (...workedDays: WorkedDays[]): number[] =>
+  workedDays
+    .flatMap(days => Object.keys(days).map(Number).filter(year => days[year].length))
+    .filter((year, index, all) => all.indexOf(year) === index)
+    .sort((a, b) => a - b);
+
+export const summarizeRestore = (current: BackupData, incoming: BackupData): RestoreSummary => {
+  const summary: RestoreSummary = {
+    years: getYears(incoming.workedDays),
+    entries: Object.values(incoming.workedDays).reduce((sum, days) => sum + days.length, 0),
+    newDays: 0,
+    conflictingDays: 0,
+    removedDays: 0,
+    newShiftTypes: incoming.shiftTypes.filter(shift => !current.shiftTypes.some(s => s.type === shift.type)).length,
+    newJobs: incoming.jobs.filter(job => !current.jobs.some(j => j.id === job.id)).length,
+    changedSettings: SETTING_KEYS.filter(key =>
+      incoming[key] !== undefined && JSON.stringify(current[key]) !== JSON.stringify(incoming[key]))
+  };
+  getYears(current.workedDays, incoming.workedDays).forEach(year => {
+    const before = groupByDay(current.workedDays[year] || []);
+    const after = groupByDay(incoming.workedDays[year] || []);
+    after.forEach((days, key) => {
+      if (!before.has(key)) summary.newDays++;
+      else if (JSON.stringify(before.get(key)) !== JSON.stringify(days)) summary.conflictingDays++;
+    });
+    before.forEach((_, key) => {
+      if (!after.has(key)) summary.removedDays++;
+    });
+  });
+  return summary;
+};
+
+// Adds what only the backup has. Where both have something the current data
+// wins: its days, shift types, jobs, custom holidays, payslips and settings are kept.
+export const mergeBackupData = (current: BackupData, incoming: BackupData): BackupData => {
+  const workedDays = getYears(current.workedDays, incoming.workedDays).reduce((acc, year) => {
+    const days = current.workedDays[year] || [];
+    const before = groupByDay(days);
+    const added = (incoming.workedDays[year] || []).filter(wd => !before.has(dayKey(wd)));
+    return { ...acc, [year]: [...days, ...added] };
+  }, {} as WorkedDays);
+  return {
+    ...current,
+    workedDays,
+    shiftTypes: [
+      ...current.shiftTypes,
+      ...incoming.shiftTypes.filter(shift => !current.shiftTypes.some(s => s.type === shift.type))
+    ],
+    jobs: [...current.jobs, ...incoming.jobs.filter(job => !current.jobs.some(j => j.id === job.id))],
+    premiumWindows: [
+      ...current.premiumWindows,
+      ...incoming.premiumWindows.filter(w => !current.premiumWindows.some(c => c.id === w.id))
+    ],
+    customHolidays: [
+      ...current.customHolidays,
+      ...incoming.customHolidays.filter(h => !current.customHolidays.some(c => c.date === h.date))
+    ],
+    payslips: [
+      ...(current.payslips || []),
+      ...(incoming.payslips || []).filter(p => !(current.payslips || []).some(c =>
+        getJobId(c) === getJobId(p) && c.year === p.year && c.month === p.month))
+    ]
+  };
+};
@@ -0,0 +1,54 @@
+// Payslip deductions besides tax, like occupational pension (OTP) or union
+// dues. Each is worked out on a month's gross pay.
+
+import { MonthPay } from './payEngine';
+import { TaxSettings, getMonthTax } from './tax';
+
+export interface Deduction {
+  id: string;
+  name: string;
+  // Percentage of the pay above the threshold, plus a fixed amount
+  percentage: number;
+  fixedAmount: number;
+  threshold: number;
+  // Most that is deducted in a month, no limit when left out
+  cap?: number;
+}
+
+export interface DeductionAmount {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+// Nothing is deducted in months without pay
+export const calculateDeduction = (gross: number, deduction: Deduction): number => {
+  if (gross <= 0) return 0;
+  const amount = Math.max(0, gross - deduction.threshold) * deduction.percentage / 100 + deduction.fixedAmount;
+  return Math.max(0, deduction.cap !== undefined ? Math.min(amount, deduction.cap) : amount);
+};
+
+export const getMonthDeductions = (monthPay: MonthPay, deductions: Deduction[]): DeductionAmount[] =>
+  deductions
+    .map(deduction => ({ id: deduction.id, name: deduction.name, amount: calculateDeduction(monthPay.total, deduction) }))
+    .filter(deduction => deduction.amount > 0);
+
+// Everything withheld from a month's gross pay and what is left
+export interface MonthWithholding {
+  tax: number;
+  deductions: DeductionAmount[];
+  total: number;
+  net: number;
+}
+
+export const getMonthWithholding = (monthPay: MonthPay, taxSettings: TaxSettings, deductions: Deduction[]): MonthWithholding => {
+  const tax = getMonthTax(monthPay, taxSettings);
+  const monthDeductions = getMonthDeductions(monthPay, deductions);
+  const total = monthDeductions.reduce((sum, deduction) => sum + deduction.amount, tax);
+  return { tax, deductions: monthDeductions, total, net: monthPay.total - total };
+};
+
+// The share of the month's gross pay that is left, for splitting what is
+// withheld over the month's days and parts
+export const getNetShare = (monthPay: MonthPay, withholding: MonthWithholding): number =>
+  monthPay.total > 0 ? withholding.net / monthPay.total : 1;
@@ -0,0 +1,36 @@
+// Undo and redo as a stack of snapshots of the edited state. Snapshots share
+// structure with the state they were taken from, so keeping many is cheap.
+
+export interface EditHistory<T> {
+  past: T[];
+  future: T[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+const isSameSnapshot = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+
+// Records the state before an edit. Recording the same state twice, e.g. when
+// one action reports its change more than once, keeps a single entry.
+export const recordEdit = <T extends object>(history: EditHistory<T>, present: T): EditHistory<T> => {
+  const last = history.past[history.past.length - 1];
+  if (last && isSameSnapshot(last, present)) return history;
+  return { past: [...history.past, present].slice(-HISTORY_LIMIT), future: [] };
+};
+
+export const undoEdit = <T>(history: EditHistory<T>, present: T): { history: EditHistory<T>; snapshot: T } | undefined => {
+  if (!history.past.length) return undefined;
+  return {
+    history: { past: history.past.slice(0, -1), future: [present, ...history.future] },
+    snapshot: history.past[history.past.length - 1]
+  };
+};
+
+export const redoEdit = <T>(history: EditHistory<T>, present: T): { history: EditHistory<T>; snapshot: T } | undefined => {
+  if (!history.future.length) return undefined;
+  return {
+    history: { past: [...history.past, present], future: history.future.slice(1) },
+    snapshot: history.future[0]
+  };
+};
@@ -0,0 +1,223 @@
+// Public holiday provider. Movable holidays are derived from Easter Sunday so
+// they are correct for any year, and both the calendar and pay rules query it.
+
+export type HolidayRegion = 'NO' | 'SE' | 'DK' | 'GB';
+
+export const HOLIDAY_REGIONS: HolidayRegion[] = ['NO', 'SE', 'DK', 'GB'];
+
+export interface Holiday {
+  date: Date;
+  name: string;
+  // A user-defined day off rather than a public holiday
+  custom?: boolean;
+}
+
+// A user-defined day off such as a company shutdown, stored as YYYY-MM-DD.
+// Recurring days repeat on the same month and day every year.
+export interface CustomHoliday {
+  date: string;
+  name: string;
+  recurring: boolean;
+}
+
+export interface HolidayProvider {
+  getHolidays: (year: number) => Holiday[];
+  getHoliday: (date: Date) => Holiday | undefined;
+}
+
+export interface HolidayOptions {
+  region: HolidayRegion;
+  language: 'en' | 'no';
+  customHolidays?: CustomHoliday[];
+}
+
+interface HolidayRule {
+  name: string;
+  nameEn: string;
+  // A fixed month/day, an offset in days from Easter Sunday, or the nth
+  // weekday of a month (nth < 0 counts from the end of the month)
+  month?: number;
+  day?: number;
+  easterOffset?: number;
+  weekday?: number;
+  nth?: number;
+  // With month, day and weekday: the first such weekday on or after month/day
+  onOrAfter?: boolean;
+  // Moved to the next free weekday when it falls on a weekend
+  substitute?: boolean;
+  fromYear?: number;
+  untilYear?: number;
+}
+
+const NORWEGIAN_HOLIDAY_RULES: HolidayRule[] = [
+  { name: 'Første nyttårsdag', nameEn: "New Year's Day", month: 0, day: 1 },
+  { name: 'Palmesøndag', nameEn: 'Palm Sunday', easterOffset: -7 },
+  { name: 'Skjærtorsdag', nameEn: 'Maundy Thursday', easterOffset: -3 },
+  { name: 'Langfredag', nameEn: 'Good Friday', easterOffset: -2 },
+  { name: 'Første påskedag', nameEn: 'Easter Sunday', easterOffset: 0 },
+  { name: 'Andre påskedag', nameEn: 'Easter Monday', easterOffset: 1 },
+  { name: 'Arbeidernes dag', nameEn: 'Labour Day', month: 4, day: 1 },
+  { name: 'Grunnlovsdag', nameEn: 'Constitution Day', month: 4, day: 17 },
+  { name: 'Kristi himmelfartsdag', nameEn: 'Ascension Day', easterOffset: 39 },
+  { name: 'Første pinsedag', nameEn: 'Whit Sunday', easterOffset: 49 },
+  { name: 'Andre pinsedag', nameEn: 'Whit Monday', easterOffset: 50 },
+  { name: 'Første juledag', nameEn: 'Christmas Day', month: 11, day: 25 },
+  { name: 'Andre juledag', nameEn: 'Boxing Day', month: 11, day: 26 }
+];
+
+const SWEDISH_HOLIDAY_RULES: HolidayRule[] = [
+  { name: 'Nyårsdagen', nameEn: "New Year's Day", month: 0, day: 1 },
+  { name: 'Trettondedag jul', nameEn: 'Epiphany', month: 0, day: 6 },
+  { name: 'Långfredagen', nameEn: 'Good Friday', easterOffset: -2 },
+  { name: 'Påskdagen', nameEn: 'Easter Sunday', easterOffset: 0 },
+  { name: 'Annandag påsk', nameEn: 'Easter Monday', easterOffset: 1 },
+  { name: 'Första maj', nameEn: 'May Day', month: 4, day: 1 },
+  { name: 'Kristi himmelsfärdsdag', nameEn: 'Ascension Day', easterOffset: 39 },
+  { name: 'Pingstdagen', nameEn: 'Whit Sunday', easterOffset: 49 },
+  { name: 'Sveriges nationaldag', nameEn: 'National Day of Sweden', month: 5, day: 6 },
+  { name: 'Midsommarafton', nameEn: 'Midsummer Eve', month: 5, day: 19, weekday: 5, onOrAfter: true },
+  { name: 'Midsommardagen', nameEn: 'Midsummer Day', month: 5, day: 20, weekday: 6, onOrAfter: true },
+  { name: 'Alla helgons dag', nameEn: "All Saints' Day", month: 9, day: 31, weekday: 6, onOrAfter: true },
+  { name: 'Julafton', nameEn: 'Christmas Eve', month: 11, day: 24 },
+  { name: 'Juldagen', nameEn: 'Christmas Day', month: 11, day: 25 },
+  { name: 'Annandag jul', nameEn: 'Boxing Day', month: 11, day: 26 },
+  { name: 'Nyårsafton', nameEn: "New Year's Eve", month: 11, day: 31 }
+];
+
+const DANISH_HOLIDAY_RULES: HolidayRule[] = [
+  { name: 'Nytårsdag', nameEn: "New Year's Day", month: 0, day: 1 },
+  { name: 'Skærtorsdag', nameEn: 'Maundy Thursday', easterOffset: -3 },
+  { name: 'Langfredag', nameEn: 'Good Friday', easterOffset: -2 },
+  { name: 'Påskedag', nameEn: 'Easter Sunday', easterOffset: 0 },
+  { name: '2. påskedag', nameEn: 'Easter Monday', easterOffset: 1 },
+  { name: 'Store bededag', nameEn: 'General Prayer Day', easterOffset: 26, untilYear: 2023 },
+  { name: 'Kristi himmelfartsdag', nameEn: 'Ascension Day', easterOffset: 39 },
+  { name: 'Pinsedag', nameEn: 'Whit Sunday', easterOffset: 49 },
+  { name: '2. pinsedag', nameEn: 'Whit Monday', easterOffset: 50 },
+  { name: 'Juledag', nameEn: 'Christmas Day', month: 11, day: 25 },
+  { name: '2. juledag', nameEn: 'Boxing Day', month: 11, day: 26 }
+];
+
+// England and Wales bank holidays
+const UK_HOLIDAY_RULES: HolidayRule[] = [
+  { name: "New Year's Day", nameEn: "New Year's Day", month: 0, day: 1, substitute: true },
+  { name: 'Good Friday', nameEn: 'Good Friday', easterOffset: -2 },
+  { name: 'Easter Monday', nameEn: 'Easter Monday', easterOffset: 1 },
+  { name: 'Early May bank holiday', nameEn: 'Early May bank holiday', month: 4, weekday: 1, nth: 1 },
+  { name: 'Spring bank holiday', nameEn: 'Spring bank holiday', month: 4, weekday: 1, nth: -1 },
+  { name: 'Summer bank holiday', nameEn: 'Summer bank holiday', month: 7, weekday: 1, nth: -1 },
+  { name: 'Christmas Day', nameEn: 'Christmas Day', month: 11, day: 25, substitute: true },
+  { name: 'Boxing Day', nameEn: 'Boxing Day', month: 11, day: 26, substitute: true }
+];
+
+const HOLIDAY_RULES: Record<HolidayRegion, HolidayRule[]> = {
+  NO: NORWEGIAN_HOLIDAY_RULES,
+  SE: SWEDISH_HOLIDAY_RULES,
+  DK: DANISH_HOLIDAY_RULES,
+  GB: UK_HOLIDAY_RULES
+};
+
+// Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month, day);
+};
+
+const isSameDate = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const resolveRuleDate = (rule: HolidayRule, year: number, easter: Date): Date => {
+  if (rule.easterOffset !== undefined) {
+    return new Date(year, easter.getMonth(), easter.getDate() + rule.easterOffset);
+  }
+  const month = rule.month ?? 0;
+  if (rule.weekday !== undefined && rule.onOrAfter) {
+    const start = new Date(year, month, rule.day ?? 1);
+    return new Date(year, month, start.getDate() + ((rule.weekday - start.getDay() + 7) % 7));
+  }
+  if (rule.weekday !== undefined && rule.nth !== undefined) {
+    if (rule.nth > 0) {
+      const first = new Date(year, month, 1);
+      return new Date(year, month, 1 + ((rule.weekday - first.getDay() + 7) % 7) + (rule.nth - 1) * 7);
+    }
+    const last = new Date(year, month + 1, 0);
+    return new Date(year, month, last.getDate() - ((last.getDay() - rule.weekday + 7) % 7) + (rule.nth + 1) * 7);
+  }
+  return new Date(year, month, rule.day ?? 1);
+};
+
+const resolveRules = (rules: HolidayRule[], year: number, language: 'en' | 'no'): Holiday[] => {
+  const easter = getEasterSunday(year);
+  const resolved = rules
+    .filter(rule => (rule.fromYear === undefined || year >= rule.fromYear) &&
+      (rule.untilYear === undefined || year <= rule.untilYear))
+    .map(rule => ({ rule, date: resolveRuleDate(rule, year, easter) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Weekday holidays keep their date, weekend ones with a substitute move to
+  // the next weekday that is not already a holiday
+  const taken = resolved.filter(({ date }) => !isWeekend(date)).map(({ date }) => date);
+  const holidays = resolved.map(({ rule, date }) => {
+    const name = language === 'en' ? rule.nameEn : rule.name;
+    if (!rule.substitute || !isWeekend(date)) {
+      return { date, name };
+    }
+    const substitute = new Date(date);
+    while (isWeekend(substitute) || taken.some(d => isSameDate(d, substitute))) {
+      substitute.setDate(substitute.getDate() + 1);
+    }
+    taken.push(substitute);
+    return { date: substitute, name: `${name} (${language === 'en' ? 'substitute day' : 'erstatningsdag'})` };
+  });
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const resolveCustomHolidays = (customHolidays: CustomHoliday[], year: number): Holiday[] =>
+  customHolidays
+    .map((custom): Holiday | undefined => {
+      const [y, m, d] = custom.date.split('-').map(Number);
+      if (!custom.recurring && y !== year) return undefined;
+      return { date: new Date(year, m - 1, d), name: custom.name, custom: true };
+    })
+    .filter((h): h is Holiday => h !== undefined && !isNaN(h.date.getTime()));
+
+export const getRegionHolidays = (region: HolidayRegion, year: number, language: 'en' | 'no' = 'no'): Holiday[] =>
+  resolveRules(HOLIDAY_RULES[region], year, language);
+
+export const createHolidayProvider = ({ region, language, customHolidays = [] }: HolidayOptions): HolidayProvider => {
+  const cache: { [year: number]: Holiday[] } = {};
+  const getHolidays = (year: number) => {
+    if (!cache[year]) {
+      cache[year] = [...getRegionHolidays(region, year, language), ...resolveCustomHolidays(customHolidays, year)]
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+    return cache[year];
+  };
+  return {
+    getHolidays,
+    getHoliday: (date: Date) => {
+      // Official and custom days can share a date; show both names
+      const matches = getHolidays(date.getFullYear()).filter(h => isSameDate(h.date, date));
+      if (matches.length === 0) return undefined;
+      return { date: matches[0].date, name: matches.map(h => h.name).join(' / '), custom: matches.every(h => h.custom) };
+    }
+  };
+};
@@ -0,0 +1,50 @@
+// Employers or jobs. Each job has its own rates, shift types and currency;
+// shift types and worked days are tagged with the job they belong to.
+
+import { RateChange, SalarySettings, ShiftConfig, WorkDay, WorkedDays } from './payEngine';
+
+export interface CurrencyConfig {
+  currency: string;
+  position: 'before' | 'after';
+}
+
+export interface Job {
+  id: string;
+  name: string;
+  color: string;
+  baseRate: number;
+  rateHistory: RateChange[];
+  // Paid by the hour when not set
+  salary?: SalarySettings;
+  // Falls back to the app's currency when not set
+  currency?: CurrencyConfig;
+}
+
+// Data recorded before jobs existed belongs to the first job
+export const DEFAULT_JOB_ID = 'main';
+
+export const ALL_JOBS = 'all';
+
+export const JOB_COLORS = ['#00e676', '#2196f3', '#ff9800', '#EC4899', '#8B5CF6', '#00bcd4'];
+
+export const getJobId = (item: { jobId?: string }): string => item.jobId || DEFAULT_JOB_ID;
+
+export const getJobShiftTypes = (shiftTypes: ShiftConfig[], jobId: string): ShiftConfig[] =>
+  shiftTypes.filter(shift => getJobId(shift) === jobId);
+
+export const getJobWorkedDays = (workedDays: WorkedDays, jobId: string): WorkedDays =>
+  Object.keys(workedDays).map(Number).reduce((acc, year) => ({
+    ...acc,
+    [year]: workedDays[year].filter((wd: WorkDay) => getJobId(wd) === jobId)
+  }), {} as WorkedDays);
+
+// Shift type keys are unique across jobs, so a new job's copies of the
+// default shift types get the job id appended
+export const createJobShiftTypes = (templates: ShiftConfig[], job: Job): ShiftConfig[] =>
+  templates.map(shift => ({
+    ...shift,
+    type: `${shift.type}_${job.id}`,
+    label: `${shift.label} (${job.name})`,
+    labelEn: `${shift.labelEn || shift.label} (${job.name})`,
+    jobId: job.id
+  }));
@@ -0,0 +1,926 @@
+// Shared pay calculations. Every card, chart, tooltip and CSV export reads its
+// numbers from here so that they always agree with each other.
+
+import { HolidayProvider } from './holidays';
+
+// Planned shifts are projected earnings and worked ones are earned. Cancelled
+// shifts and shifts swapped away are kept on the calendar but not paid.
+export type WorkDayStatus = 'planned' | 'worked' | 'cancelled' | 'swapped';
+
+export const WORK_DAY_STATUSES: WorkDayStatus[] = ['planned', 'worked', 'cancelled', 'swapped'];
+
+// An entry inherits its times and paid hours from its shift type unless the
+// actual start, end or hours worked were recorded for it. Without a status it
+// is planned until its date has passed.
+export interface WorkDay {
+  day: number;
+  month: number;
+  shiftType: string;
+  jobId?: string;
+  startTime?: string;
+  endTime?: string;
+  hours?: number;
+  status?: WorkDayStatus;
+}
+
+export type WorkDayTimes = Pick<WorkDay, 'startTime' | 'endTime' | 'hours'>;
+
+export type WorkedDays = { [year: number]: WorkDay[] };
+
+// Days away from work. Vacation and self-certified sick days are counted
+// against their yearly limits; sick leave is certified by a doctor.
+export type AbsenceCategory = 'vacation' | 'selfCertified' | 'sickLeave' | 'leave';
+
+export const ABSENCE_CATEGORIES: AbsenceCategory[] = ['vacation', 'selfCertified', 'sickLeave', 'leave'];
+
+// 'average' pays the average day of the three months before, 'thirdParty'
+// is paid by someone other than the employer, e.g. NAV
+export type AbsencePay = 'unpaid' | 'average' | 'thirdParty';
+
+export const ABSENCE_PAYS: AbsencePay[] = ['unpaid', 'average', 'thirdParty'];
+
+export interface AbsenceSettings {
+  category: AbsenceCategory;
+  pay: AbsencePay;
+}
+
+export interface ShiftConfig {
+  type: string;
+  label: string;
+  color: string;
+  hours: number;
+  overtimeMultiplier: number;
+  startTime?: string;
+  endTime?: string;
+  labelEn: string;
+  jobId?: string;
+  // Deleted while days still used it; priced and labeled but not offered for new days
+  archived?: boolean;
+  // Makes this an absence type: no hours are worked and the pay follows its settings
+  absence?: AbsenceSettings;
+}
+
+export type SupplementKind = 'saturday' | 'sunday' | 'holiday';
+
+export const SUPPLEMENT_KINDS: SupplementKind[] = ['saturday', 'sunday', 'holiday'];
+
+// A supplement is either a percentage of the base pay or a fixed amount per hour
+export interface SupplementRate {
+  mode: 'percent' | 'fixed';
+  value: number;
+}
+
+export type SupplementSettings = Record<SupplementKind, SupplementRate>;
+
+export const DEFAULT_SUPPLEMENTS: SupplementSettings = {
+  saturday: { mode: 'percent', value: 0 },
+  sunday: { mode: 'percent', value: 0 },
+  holiday: { mode: 'percent', value: 0 }
+};
+
+// A clock-time window with an hourly premium, e.g. evenings 18:00-21:00.
+// A window whose end is not after its start runs past midnight.
+export interface PremiumWindow {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  ratePerHour: number;
+}
+
+// Hours above the daily limit, or above the weekly limit within an ISO week,
+// are reclassified as overtime and paid at least at the overtime rate
+export interface OvertimeRules {
+  enabled: boolean;
+  dailyLimit: number;
+  weeklyLimit: number;
+  rate: number;
+}
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  enabled: false,
+  dailyLimit: 9,
+  weeklyLimit: 40,
+  rate: 40
+};
+
+// Holiday pay (feriepenger): a percentage of one year's earnings paid out in a
+// month of the next year. In the same month the vacation deduction
+// (ferietrekk) takes back the pay of the given number of vacation days.
+export interface HolidayPaySettings {
+  enabled: boolean;
+  rate: number;
+  payoutMonth: number;
+  deductionDays: number;
+}
+
+export const DEFAULT_HOLIDAY_PAY: HolidayPaySettings = {
+  enabled: false,
+  rate: 10.2,
+  payoutMonth: 5,
+  deductionDays: 0
+};
+
+// Monthly salary (fastlønn): the salary pays for the contracted norm hours of
+// every month from the start month on. Hours beyond the norm, premiums,
+// supplements and overtime are paid at the hourly rate derived from the
+// salary; months before the start are paid by the hour.
+export interface SalarySettings {
+  enabled: boolean;
+  // The salary from the start month until the first change
+  monthlySalary: number;
+  normHours: number;
+  // First day of the first month paid by the salary (YYYY-MM-DD). The salary
+  // is paid for whole months, so only the month counts.
+  startDate: string;
+  history: SalaryChange[];
+}
+
+// A new monthly salary from the first of a month (YYYY-MM-DD) on, e.g. a raise
+export interface SalaryChange {
+  effectiveFrom: string;
+  monthlySalary: number;
+}
+
+export const DEFAULT_SALARY: SalarySettings = {
+  enabled: false,
+  monthlySalary: 40000,
+  normHours: 162.5,
+  startDate: '',
+  history: []
+};
+
+// The salary in effect in the month of a date according to the salary history
+export const getSalaryOn = (date: Date, salary: SalarySettings): number => {
+  const month = toDateKey(date).slice(0, 7);
+  return [...salary.history]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .reduce((amount, change) => change.effectiveFrom.slice(0, 7) <= month ? change.monthlySalary : amount, salary.monthlySalary);
+};
+
+export const getSalaryHourlyRate = (date: Date, salary: SalarySettings): number =>
+  salary.normHours > 0 ? getSalaryOn(date, salary) / salary.normHours : 0;
+
+// A new base rate from a date (YYYY-MM-DD) on, e.g. a raise. Days before the
+// first change are paid the plain baseRate.
+export interface RateChange {
+  effectiveFrom: string;
+  rate: number;
+}
+
+export interface RateSettings {
+  baseRate: number;
+  rateHistory: RateChange[];
+  supplements: SupplementSettings;
+  premiumWindows: PremiumWindow[];
+  overtimeRules: OvertimeRules;
+  holidayPay: HolidayPaySettings;
+  // Paid by the hour when not set
+  salary?: SalarySettings;
+}
+
+export interface PayContext {
+  shiftTypes: ShiftConfig[];
+  rates: RateSettings;
+  holidays?: HolidayProvider;
+  // Decides which entries without a status have been worked; defaults to now
+  today?: Date;
+}
+
+export interface PremiumPay {
+  windowId: string;
+  name: string;
+  hours: number;
+  amount: number;
+}
+
+export interface PremiumSummary {
+  name: string;
+  hours: number;
+  amount: number;
+  days: number;
+}
+
+export interface ShiftPay {
+  hours: number;
+  basePay: number;
+  overtimePay: number;
+  premiums: PremiumPay[];
+  earnings: number;
+}
+
+export interface SupplementPay {
+  kind: SupplementKind;
+  hours: number;
+  amount: number;
+}
+
+export interface SupplementSummary {
+  hours: number;
+  amount: number;
+  days: number;
+}
+
+// Hours of a day reclassified as overtime by the daily or weekly limit
+export interface StatutoryOvertime {
+  dailyHours: number;
+  weeklyHours: number;
+  hours: number;
+  amount: number;
+}
+
+export interface StatutoryOvertimeSummary {
+  hours: number;
+  amount: number;
+  days: number;
+}
+
+// Earnings of a day include its premiums, supplements and statutory overtime;
+// basePay and overtimePay do not
+export interface DayPay extends ShiftPay {
+  year: number;
+  month: number;
+  day: number;
+  shift: ShiftConfig;
+  baseRate: number;
+  // Only planned and worked entries are priced
+  status: WorkDayStatus;
+  // The times and hours recorded on the entry itself
+  times: WorkDayTimes;
+  supplements: SupplementPay[];
+  statutoryOvertime?: StatutoryOvertime;
+}
+
+export interface ShiftSummary {
+  earnings: number;
+  days: number;
+  hours: number;
+  overtimeMultiplier: number;
+}
+
+// Shift summaries hold the pay of the shifts themselves; premiums and
+// supplements are summed separately so they can be listed on their own lines
+export interface MonthPay {
+  year: number;
+  month: number;
+  // The base rates the month was priced with, in date order
+  baseRates: number[];
+  days: DayPay[];
+  shiftData: {
+    [shiftType: string]: ShiftSummary;
+  };
+  supplementData: Partial<Record<SupplementKind, SupplementSummary>>;
+  premiumData: {
+    [windowId: string]: PremiumSummary;
+  };
+  statutoryOvertime?: StatutoryOvertimeSummary;
+  // Paid out in the payout month, included in the total
+  holidayPay?: HolidayPayPayout;
+  // The fixed monthly salary, included in the total
+  salary?: number;
+  total: number;
+  // The parts of the total from worked and from planned entries; holiday pay
+  // and the salary are in neither
+  earned: number;
+  projected: number;
+}
+
+export interface HolidayPayPayout {
+  // The year the holiday pay was earned in, and what was earned in it
+  basisYear: number;
+  basis: number;
+  rate: number;
+  amount: number;
+  deductionDays: number;
+  deduction: number;
+}
+
+export interface YearPay {
+  year: number;
+  months: MonthPay[];
+  total: number;
+  earned: number;
+  projected: number;
+  // Holiday pay earned in the year so far, paid out the next year
+  holidayPayAccrued: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+const parseClockTime = (time?: string): number | undefined => {
+  if (!time) return undefined;
+  const [hours, minutes] = time.split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return undefined;
+  return hours * 60 + minutes;
+};
+
+// Minutes from the start of the shift's first day; the end is moved to the
+// next day when it is not after the start
+const toClockInterval = (start: number, end: number): [number, number] =>
+  [start, end <= start ? end + MINUTES_PER_DAY : end];
+
+// Clock hours of a shift that fall inside a premium window, including shifts
+// and windows that cross midnight
+export const getHoursInWindow = (startTime: string | undefined, endTime: string | undefined, window: PremiumWindow): number => {
+  const shiftStart = parseClockTime(startTime);
+  const shiftEnd = parseClockTime(endTime);
+  const windowStart = parseClockTime(window.start);
+  const windowEnd = parseClockTime(window.end);
+  if (shiftStart === undefined || shiftEnd === undefined || windowStart === undefined || windowEnd === undefined) {
+    return 0;
+  }
+  const [s, e] = toClockInterval(shiftStart, shiftEnd);
+  const [ws, we] = toClockInterval(windowStart, windowEnd);
+  // The window repeats every day, so check the previous, same and next day
+  const minutes = [-MINUTES_PER_DAY, 0, MINUTES_PER_DAY].reduce((sum, offset) =>
+    sum + Math.max(0, Math.min(e, we + offset) - Math.max(s, ws + offset)), 0);
+  return minutes / 60;
+};
+
+export const calculatePremiums = (
+  startTime: string | undefined,
+  endTime: string | undefined,
+  premiumWindows: PremiumWindow[]
+): PremiumPay[] =>
+  premiumWindows
+    .map(window => {
+      const hours = getHoursInWindow(startTime, endTime, window);
+      return { windowId: window.id, name: window.name, hours, amount: hours * window.ratePerHour };
+    })
+    .filter(premium => premium.hours > 0 && premium.amount > 0);
+
+const getClockHours = (startTime?: string, endTime?: string): number | undefined => {
+  const start = parseClockTime(startTime);
+  const end = parseClockTime(endTime);
+  if (start === undefined || end === undefined) return undefined;
+  const [s, e] = toClockInterval(start, end);
+  return (e - s) / 60;
+};
+
+// The shift as it was actually worked. Changed times without recorded hours
+// move the paid hours by the same amount, so unpaid breaks in the template
+// are kept.
+export const resolveWorkDayShift = (shift: ShiftConfig, workDay: WorkDayTimes): ShiftConfig => {
+  const startTime = workDay.startTime || shift.startTime;
+  const endTime = workDay.endTime || shift.endTime;
+  if (workDay.hours !== undefined) {
+    return { ...shift, startTime, endTime, hours: workDay.hours };
+  }
+  const actual = getClockHours(startTime, endTime);
+  const planned = getClockHours(shift.startTime, shift.endTime);
+  const hours = actual === undefined
+    ? shift.hours
+    : planned === undefined ? actual : Math.max(0, shift.hours + actual - planned);
+  return { ...shift, startTime, endTime, hours: roundHours(hours) };
+};
+
+export const hasWorkDayOverride = (shift: ShiftConfig, workDay: WorkDayTimes): boolean => {
+  const resolved = resolveWorkDayShift(shift, workDay);
+  return resolved.startTime !== shift.startTime ||
+    resolved.endTime !== shift.endTime ||
+    resolved.hours !== shift.hours;
+};
+
+// Pay for one shift of the given type, before any date-dependent rules
+export const calculateShiftPay = (shift: ShiftConfig, baseRate: number, premiumWindows: PremiumWindow[] = []): ShiftPay => {
+  const basePay = baseRate * shift.hours;
+  const overtimeRate = shift.overtimeMultiplier > 0 ? shift.overtimeMultiplier / 100 : 0;
+  const overtimePay = basePay * overtimeRate;
+  const premiums = calculatePremiums(shift.startTime, shift.endTime, premiumWindows);
+  return {
+    hours: shift.hours,
+    basePay,
+    overtimePay,
+    premiums,
+    earnings: basePay + overtimePay + premiums.reduce((sum, p) => sum + p.amount, 0)
+  };
+};
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isPaidBySalary = (date: Date, salary?: SalarySettings): salary is SalarySettings =>
+  !!salary?.enabled && toDateKey(date).slice(0, 7) >= salary.startDate.slice(0, 7);
+
+// The base rate valid on a date according to the rate history; on a monthly
+// salary it is the derived hourly rate
+export const getBaseRateOn = (date: Date, rates: Pick<RateSettings, 'baseRate' | 'rateHistory' | 'salary'>): number => {
+  if (isPaidBySalary(date, rates.salary)) return getSalaryHourlyRate(date, rates.salary);
+  const key = toDateKey(date);
+  return [...rates.rateHistory]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .reduce((rate, change) => change.effectiveFrom <= key ? change.rate : rate, rates.baseRate);
+};
+
+// The supplement that applies on a date. Public holidays take precedence over
+// weekend supplements, they are never paid on top of each other. Custom days
+// off are not public holidays and get no holiday supplement.
+export const getSupplementKind = (date: Date, holidays?: HolidayProvider): SupplementKind | undefined => {
+  const holiday = holidays?.getHoliday(date);
+  if (holiday && !holiday.custom) return 'holiday';
+  if (date.getDay() === 6) return 'saturday';
+  if (date.getDay() === 0) return 'sunday';
+  return undefined;
+};
+
+export const calculateSupplementPay = (
+  kind: SupplementKind,
+  hours: number,
+  rates: RateSettings
+): SupplementPay | undefined => {
+  const rate = rates.supplements[kind];
+  if (!rate || rate.value <= 0) return undefined;
+  const amount = rate.mode === 'percent'
+    ? rates.baseRate * hours * (rate.value / 100)
+    : rate.value * hours;
+  return { kind, hours, amount };
+};
+
+export const getWorkDayStatus = (year: number, workDay: WorkDay, today: Date = new Date()): WorkDayStatus =>
+  workDay.status || (toDateKey(new Date(year, workDay.month, workDay.day)) < toDateKey(today) ? 'worked' : 'planned');
+
+const isPaidEntry = (workDay: WorkDay) => workDay.status !== 'cancelled' && workDay.status !== 'swapped';
+
+// averageDayPay is what an absence paid at the average day earns
+export const calculateDayPay = (
+  year: number,
+  workDay: WorkDay,
+  context: PayContext,
+  averageDayPay: number = 0
+): DayPay | undefined => {
+  const shift = context.shiftTypes.find(s => s.type === workDay.shiftType);
+  if (!shift) return undefined;
+  const date = new Date(year, workDay.month, workDay.day);
+  const rates = { ...context.rates, baseRate: getBaseRateOn(date, context.rates) };
+  if (shift.absence) {
+    const earnings = shift.absence.pay === 'average' ? averageDayPay : 0;
+    return {
+      year,
+      month: workDay.month,
+      day: workDay.day,
+      shift,
+      baseRate: rates.baseRate,
+      status: getWorkDayStatus(year, workDay, context.today),
+      times: { startTime: workDay.startTime, endTime: workDay.endTime, hours: workDay.hours },
+      hours: 0,
+      basePay: earnings,
+      overtimePay: 0,
+      premiums: [],
+      supplements: [],
+      earnings
+    };
+  }
+  const shiftPay = calculateShiftPay(resolveWorkDayShift(shift, workDay), rates.baseRate, rates.premiumWindows);
+  const kind = getSupplementKind(date, context.holidays);
+  const supplement = kind ? calculateSupplementPay(kind, shiftPay.hours, rates) : undefined;
+  const supplements = supplement ? [supplement] : [];
+  return {
+    year,
+    month: workDay.month,
+    day: workDay.day,
+    shift,
+    baseRate: rates.baseRate,
+    status: getWorkDayStatus(year, workDay, context.today),
+    times: { startTime: workDay.startTime, endTime: workDay.endTime, hours: workDay.hours },
+    ...shiftPay,
+    supplements,
+    earnings: shiftPay.earnings + supplements.reduce((sum, s) => sum + s.amount, 0)
+  };
+};
+
+const getEntriesOnDate = (workedDays: WorkedDays, date: Date): WorkDay[] =>
+  (workedDays[date.getFullYear()] || [])
+    .filter(wd => wd.month === date.getMonth() && wd.day === date.getDate() && isPaidEntry(wd));
+
+const getEntryHours = (workDay: WorkDay, context: PayContext): number => {
+  const shift = context.shiftTypes.find(s => s.type === workDay.shiftType);
+  return shift && !shift.absence ? resolveWorkDayShift(shift, workDay).hours : 0;
+};
+
+// Average earnings per day worked in the three calendar months before the
+// given one, before statutory overtime. Absences are not counted as days.
+export const getAverageDayPay = (
+  year: number,
+  month: number,
+  workedDays: WorkedDays,
+  context: PayContext
+): number => {
+  const days = [1, 2, 3].flatMap(back => {
+    const date = new Date(year, month - back, 1);
+    return (workedDays[date.getFullYear()] || [])
+      .filter(wd => wd.month === date.getMonth() && isPaidEntry(wd))
+      .map(wd => calculateDayPay(date.getFullYear(), wd, context))
+      .filter((d): d is DayPay => d !== undefined && !d.shift.absence);
+  });
+  const dates = new Set(days.map(d => toDateKey(new Date(d.year, d.month, d.day))));
+  return dates.size > 0 ? days.reduce((sum, d) => sum + d.earnings, 0) / dates.size : 0;
+};
+
+// Reclassified hours per day of the month. Every ISO week touching the month
+// is walked from Monday, so weeks spanning a month or year boundary count the
+// hours worked on both sides.
+export const detectStatutoryOvertime = (
+  year: number,
+  month: number,
+  workedDays: WorkedDays,
+  context: PayContext
+): { [day: number]: { dailyHours: number; weeklyHours: number } } => {
+  const { dailyLimit, weeklyLimit } = context.rates.overtimeRules;
+  const result: { [day: number]: { dailyHours: number; weeklyHours: number } } = {};
+  const firstOfMonth = new Date(year, month, 1);
+  const lastOfMonth = new Date(year, month + 1, 0);
+  const cursor = new Date(year, month, 1 - ((firstOfMonth.getDay() + 6) % 7));
+
+  while (cursor <= lastOfMonth) {
+    let weeklyRegular = 0;
+    for (let i = 0; i < 7; i++) {
+      const hours = getEntriesOnDate(workedDays, cursor).reduce((sum, wd) => sum + getEntryHours(wd, context), 0);
+      const dailyHours = roundHours(Math.max(0, hours - dailyLimit));
+      const regular = hours - dailyHours;
+      const weeklyHours = roundHours(Math.max(0, Math.min(regular, weeklyRegular + regular - weeklyLimit)));
+      weeklyRegular += regular - weeklyHours;
+      if (cursor.getMonth() === month && cursor.getFullYear() === year && (dailyHours > 0 || weeklyHours > 0)) {
+        result[cursor.getDate()] = { dailyHours, weeklyHours };
+      }
+      cursor.setDate(cursor.getDate() + 1);
+    }
+  }
+  return result;
+};
+
+// Reclassified hours are topped up from the shift's own overtime percentage to
+// the statutory rate, so shifts already paid as overtime are not paid twice
+const applyStatutoryOvertime = (dayPay: DayPay, dailyHours: number, weeklyHours: number, rates: RateSettings): DayPay => {
+  const hours = dailyHours + weeklyHours;
+  const topUp = Math.max(0, rates.overtimeRules.rate - dayPay.shift.overtimeMultiplier) / 100;
+  const amount = dayPay.baseRate * hours * topUp;
+  return {
+    ...dayPay,
+    statutoryOvertime: { dailyHours, weeklyHours, hours, amount },
+    earnings: dayPay.earnings + amount
+  };
+};
+
+export const calculateMonthPay = (
+  year: number,
+  month: number,
+  workedDays: WorkedDays,
+  context: PayContext
+): MonthPay => {
+  const overtime = context.rates.overtimeRules.enabled
+    ? detectStatutoryOvertime(year, month, workedDays, context)
+    : {};
+  const entries = (workedDays[year] || []).filter(wd => wd.month === month && isPaidEntry(wd));
+  const averageDayPay = entries.some(wd => context.shiftTypes.find(s => s.type === wd.shiftType)?.absence?.pay === 'average')
+    ? getAverageDayPay(year, month, workedDays, context)
+    : 0;
+  const basePays = entries
+    .map(wd => calculateDayPay(year, wd, context, averageDayPay))
+    .filter((d): d is DayPay => d !== undefined)
+    .sort((a, b) => a.day - b.day);
+
+  // A day can hold several entries; its reclassified hours are taken from the
+  // last entries first, as those are the hours worked beyond the limit
+  const days = Object.keys(overtime).map(Number).reduce((acc, day) => {
+    let { dailyHours, weeklyHours } = overtime[day];
+    for (let i = acc.length - 1; i >= 0 && dailyHours + weeklyHours > 0; i--) {
+      if (acc[i].day !== day || acc[i].hours === 0) continue;
+      const taken = Math.min(acc[i].hours, dailyHours + weeklyHours);
+      const dailyTaken = Math.min(taken, dailyHours);
+      acc[i] = applyStatutoryOvertime(acc[i], dailyTaken, roundHours(taken - dailyTaken), context.rates);
+      dailyHours = roundHours(dailyHours - dailyTaken);
+      weeklyHours = roundHours(weeklyHours - (taken - dailyTaken));
+    }
+    return acc;
+  }, [...basePays]);
+
+  // A month without worked days still shows the rate valid on its first day
+  const baseRates = days.length > 0
+    ? days.map(d => d.baseRate).filter((rate, index, all) => all.indexOf(rate) === index)
+    : [getBaseRateOn(new Date(year, month, 1), context.rates)];
+
+  // The salary is paid in full for the month it starts in and every one after
+  const salary = context.rates.salary;
+  if (!isPaidBySalary(new Date(year, month, 1), salary)) return summarizeMonth(year, month, days, baseRates);
+  const monthlySalary = getSalaryOn(new Date(year, month, 1), salary);
+  const summary = summarizeMonth(year, month, applySalaryNorm(days, salary.normHours), baseRates);
+  return { ...summary, salary: monthlySalary, total: summary.total + monthlySalary };
+};
+
+// The salary pays for the month's hours up to the norm, taken in date order,
+// and for absences, so only the base pay of hours beyond the norm is added
+const applySalaryNorm = (days: DayPay[], normHours: number): DayPay[] => {
+  let remaining = normHours;
+  return days.map(dayPay => {
+    const covered = dayPay.shift.absence ? 0 : Math.min(dayPay.hours, Math.max(0, remaining));
+    remaining -= covered;
+    const coveredPay = dayPay.shift.absence ? dayPay.basePay : dayPay.baseRate * covered;
+    return coveredPay > 0
+      ? { ...dayPay, basePay: dayPay.basePay - coveredPay, earnings: dayPay.earnings - coveredPay }
+      : dayPay;
+  });
+};
+
+// The month's summaries of the given day pays, e.g. of only the worked ones
+export const summarizeMonth = (year: number, month: number, days: DayPay[], baseRates: number[]): MonthPay => {
+  // Summaries count each calendar day once, even when it holds several entries
+  const countedDays = new Set<string>();
+  // Keyed by date, as a month grouped by payout holds days of several months
+  const isNewDay = (key: string, dayPay: DayPay) => {
+    const dayKey = `${key}-${toDateKey(new Date(dayPay.year, dayPay.month, dayPay.day))}`;
+    if (countedDays.has(dayKey)) return false;
+    countedDays.add(dayKey);
+    return true;
+  };
+
+  const shiftData = days.reduce((acc, dayPay) => {
+    const type = dayPay.shift.type;
+    if (!acc[type]) {
+      acc[type] = { earnings: 0, days: 0, hours: 0, overtimeMultiplier: dayPay.shift.overtimeMultiplier };
+    }
+    acc[type].earnings += dayPay.basePay + dayPay.overtimePay;
+    if (isNewDay(`shift-${type}`, dayPay)) acc[type].days += 1;
+    acc[type].hours += dayPay.hours;
+    return acc;
+  }, {} as MonthPay['shiftData']);
+
+  const supplementData = days.reduce((acc, dayPay) => {
+    dayPay.supplements.forEach(({ kind, hours, amount }) => {
+      const summary = acc[kind] || (acc[kind] = { hours: 0, amount: 0, days: 0 });
+      summary.hours += hours;
+      summary.amount += amount;
+      if (isNewDay(kind, dayPay)) summary.days += 1;
+    });
+    return acc;
+  }, {} as MonthPay['supplementData']);
+
+  const premiumData = days.reduce((acc, dayPay) => {
+    dayPay.premiums.forEach(({ windowId, name, hours, amount }) => {
+      const summary = acc[windowId] || (acc[windowId] = { name, hours: 0, amount: 0, days: 0 });
+      summary.hours += hours;
+      summary.amount += amount;
+      if (isNewDay(`premium-${windowId}`, dayPay)) summary.days += 1;
+    });
+    return acc;
+  }, {} as MonthPay['premiumData']);
+
+  const statutoryOvertime = days.reduce<StatutoryOvertimeSummary | undefined>((acc, dayPay) => {
+    if (!dayPay.statutoryOvertime) return acc;
+    const summary = acc || { hours: 0, amount: 0, days: 0 };
+    return {
+      hours: summary.hours + dayPay.statutoryOvertime.hours,
+      amount: summary.amount + dayPay.statutoryOvertime.amount,
+      days: summary.days + (isNewDay('statutoryOvertime', dayPay) ? 1 : 0)
+    };
+  }, undefined);
+
+  const total = days.reduce((sum, { earnings }) => sum + earnings, 0);
+  const earned = days.filter(d => d.status === 'worked').reduce((sum, { earnings }) => sum + earnings, 0);
+
+  return {
+    year,
+    month,
+    baseRates,
+    days,
+    shiftData,
+    supplementData,
+    premiumData,
+    statutoryOvertime,
+    total,
+    earned,
+    projected: total - earned
+  };
+};
+
+export const calculateYearPay = (
+  year: number,
+  workedDays: WorkedDays,
+  context: PayContext
+): YearPay => {
+  const months = calculateMonths(year, workedDays, context);
+  const settings = context.rates.holidayPay;
+  if (!settings.enabled) return sumMonths(year, months);
+  const payout = calculateHolidayPayPayout(year - 1, calculateMonths(year - 1, workedDays, context), settings, context.today);
+  // Nothing is paid out, or deducted, without earnings in the basis year
+  if (payout.amount > 0) {
+    const payoutMonth = months[settings.payoutMonth];
+    months[settings.payoutMonth] = {
+      ...payoutMonth,
+      holidayPay: payout,
+      total: payoutMonth.total + payout.amount - payout.deduction
+    };
+  }
+  return sumMonths(year, months, getHolidayPayBasis(months, context.today) * settings.rate / 100);
+};
+
+// Holiday pay is earned on the pay of worked entries and on the salary of
+// months that have begun
+const getHolidayPayBasis = (months: MonthPay[], today: Date = new Date()): number =>
+  months.reduce((sum, m) =>
+    sum + m.earned + (m.salary && new Date(m.year, m.month, 1) <= today ? m.salary : 0), 0);
+
+const calculateMonths = (year: number, workedDays: WorkedDays, context: PayContext): MonthPay[] =>
+  Array.from({ length: 12 }, (_, month) => calculateMonthPay(year, month, workedDays, context));
+
+// Holiday pay on what was earned in the basis year. The deduction is the
+// average pay per day worked that year for each vacation day.
+export const calculateHolidayPayPayout = (
+  basisYear: number,
+  basisMonths: MonthPay[],
+  settings: HolidayPaySettings,
+  today?: Date
+): HolidayPayPayout => {
+  const basis = getHolidayPayBasis(basisMonths, today);
+  const workedDates = new Set(basisMonths.flatMap(m => m.days)
+    .filter(d => d.status === 'worked' && !d.shift.absence)
+    .map(d => toDateKey(new Date(d.year, d.month, d.day))));
+  const dayPay = workedDates.size > 0 ? basis / workedDates.size : 0;
+  return {
+    basisYear,
+    basis,
+    rate: settings.rate,
+    amount: basis * settings.rate / 100,
+    deductionDays: settings.deductionDays,
+    deduction: Math.min(basis, dayPay * settings.deductionDays)
+  };
+};
+
+const sumMonths = (year: number, months: MonthPay[], holidayPayAccrued: number = 0): YearPay => ({
+  year,
+  months,
+  total: months.reduce((sum, m) => sum + m.total, 0),
+  earned: months.reduce((sum, m) => sum + m.earned, 0),
+  projected: months.reduce((sum, m) => sum + m.projected, 0),
+  holidayPayAccrued
+});
+
+// One month of several separately priced sets of work, e.g. different jobs
+export const combineMonthPays = (year: number, month: number, monthPays: MonthPay[]): MonthPay => {
+  const shiftData: MonthPay['shiftData'] = {};
+  const supplementData: MonthPay['supplementData'] = {};
+  const premiumData: MonthPay['premiumData'] = {};
+  let statutoryOvertime: StatutoryOvertimeSummary | undefined;
+  const salaries = monthPays.filter(m => m.salary !== undefined);
+
+  monthPays.forEach(monthPay => {
+    Object.entries(monthPay.shiftData).forEach(([type, summary]) => {
+      const acc = shiftData[type] || (shiftData[type] = { ...summary, earnings: 0, days: 0, hours: 0 });
+      acc.earnings += summary.earnings;
+      acc.days += summary.days;
+      acc.hours += summary.hours;
+    });
+    SUPPLEMENT_KINDS.forEach(kind => {
+      const summary = monthPay.supplementData[kind];
+      if (!summary) return;
+      const acc = supplementData[kind] || (supplementData[kind] = { hours: 0, amount: 0, days: 0 });
+      acc.hours += summary.hours;
+      acc.amount += summary.amount;
+      acc.days += summary.days;
+    });
+    Object.entries(monthPay.premiumData).forEach(([windowId, summary]) => {
+      const acc = premiumData[windowId] || (premiumData[windowId] = { name: summary.name, hours: 0, amount: 0, days: 0 });
+      acc.hours += summary.hours;
+      acc.amount += summary.amount;
+      acc.days += summary.days;
+    });
+    if (monthPay.statutoryOvertime) {
+      const acc = statutoryOvertime || (statutoryOvertime = { hours: 0, amount: 0, days: 0 });
+      acc.hours += monthPay.statutoryOvertime.hours;
+      acc.amount += monthPay.statutoryOvertime.amount;
+      acc.days += monthPay.statutoryOvertime.days;
+    }
+  });
+
+  return {
+    year,
+    month,
+    baseRates: monthPays.flatMap(m => m.baseRates).filter((rate, index, all) => all.indexOf(rate) === index),
+    days: monthPays.flatMap(m => m.days).sort((a, b) => a.day - b.day),
+    shiftData,
+    supplementData,
+    premiumData,
+    statutoryOvertime,
+    holidayPay: monthPays
+      .map(m => m.holidayPay)
+      .reduce<HolidayPayPayout | undefined>((acc, payout) => !payout ? acc : !acc ? payout : {
+        ...acc,
+        basis: acc.basis + payout.basis,
+        amount: acc.amount + payout.amount,
+        deduction: acc.deduction + payout.deduction
+      }, undefined),
+    salary: salaries.length ? salaries.reduce((sum, m) => sum + (m.salary || 0), 0) : undefined,
+    total: monthPays.reduce((sum, m) => sum + m.total, 0),
+    earned: monthPays.reduce((sum, m) => sum + m.earned, 0),
+    projected: monthPays.reduce((sum, m) => sum + m.projected, 0)
+  };
+};
+
+export const combineYearPays = (year: number, yearPays: YearPay[]): YearPay => {
+  const months = Array.from({ length: 12 }, (_, month) =>
+    combineMonthPays(year, month, yearPays.map(y => y.months[month])));
+  return sumMonths(year, months, yearPays.reduce((sum, y) => sum + y.holidayPayAccrued, 0));
+};
+
+// Rates with a change added; a change on the same date is replaced
+export const withRateChange = (rates: RateSettings, change: RateChange): RateSettings => ({
+  ...rates,
+  rateHistory: [
+    ...rates.rateHistory.filter(c => c.effectiveFrom !== change.effectiveFrom),
+    change
+  ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+});
+
+export interface RetroactiveDay {
+  paid: DayPay;
+  owed: DayPay;
+  difference: number;
+}
+
+export interface RetroactiveShiftSummary {
+  days: number;
+  hours: number;
+  paid: number;
+  owed: number;
+  difference: number;
+}
+
+export interface RetroactiveMonth {
+  year: number;
+  month: number;
+  days: RetroactiveDay[];
+  shiftData: {
+    [shiftType: string]: RetroactiveShiftSummary;
+  };
+  paid: number;
+  owed: number;
+  difference: number;
+}
+
+export interface RetroactivePay {
+  change: RateChange;
+  months: RetroactiveMonth[];
+  paid: number;
+  owed: number;
+  difference: number;
+}
+
+// Back pay after a backdated wage settlement: every day worked from the
+// settlement date up to `until` is priced with and without the new rate.
+// Planned days are left out as they have not been paid yet.
+// Later rate changes still apply from their own dates.
+export const calculateRetroactivePay = (
+  workedDays: WorkedDays,
+  context: PayContext,
+  change: RateChange,
+  until: Date = new Date()
+): RetroactivePay => {
+  const settled = { ...context, rates: withRateChange(context.rates, change) };
+  const [fromYear, fromMonth] = change.effectiveFrom.split('-').map(Number);
+  const untilKey = toDateKey(until);
+  const months: RetroactiveMonth[] = [];
+
+  for (let cursor = new Date(fromYear, fromMonth - 1, 1); cursor <= until; cursor.setMonth(cursor.getMonth() + 1)) {
+    const year = cursor.getFullYear();
+    const month = cursor.getMonth();
+    const paidDays = calculateMonthPay(year, month, workedDays, context).days;
+    const owedDays = calculateMonthPay(year, month, workedDays, settled).days;
+    // Both months are built from the same entries in the same order
+    const days = paidDays
+      .map((paid, index) => ({ paid, owed: owedDays[index], difference: owedDays[index].earnings - paid.earnings }))
+      .filter(({ paid }) => {
+        const key = toDateKey(new Date(paid.year, paid.month, paid.day));
+        return paid.status === 'worked' && key >= change.effectiveFrom && key <= untilKey;
+      });
+    if (days.length === 0) continue;
+
+    const shiftData = days.reduce((acc, { paid, owed, difference }) => {
+      const summary = acc[paid.shift.type] || (acc[paid.shift.type] = { days: 0, hours: 0, paid: 0, owed: 0, difference: 0 });
+      summary.days += 1;
+      summary.hours += paid.hours;
+      summary.paid += paid.earnings;
+      summary.owed += owed.earnings;
+      summary.difference += difference;
+      return acc;
+    }, {} as RetroactiveMonth['shiftData']);
+
+    months.push({
+      year,
+      month,
+      days,
+      shiftData,
+      paid: days.reduce((sum, d) => sum + d.paid.earnings, 0),
+      owed: days.reduce((sum, d) => sum + d.owed.earnings, 0),
+      difference: days.reduce((sum, d) => sum + d.difference, 0)
+    });
+  }
+
+  return {
+    change,
+    months,
+    paid: months.reduce((sum, m) => sum + m.paid, 0),
+    owed: months.reduce((sum, m) => sum + m.owed, 0),
+    difference: months.reduce((sum, m) => sum + m.difference, 0)
+  };
+};
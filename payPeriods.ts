@@ -0,0 +1,100 @@
+// Pay periods: which payout the pay of a day lands in. Work up to the cutoff
+// day of a month is paid on that month's payout day; shift types and
+// supplements paid in arrears come one or more payouts later.
+
+import { DayPay, MonthPay, YearPay, summarizeMonth, combineMonthPays } from './payEngine';
+
+export interface PayPeriodSettings {
+  enabled: boolean;
+  // Last day of the month whose work belongs to the month's period; 31 follows
+  // the calendar month
+  cutoffDay: number;
+  payoutDay: number;
+  // Payouts late that shift types are paid, by shift type
+  shiftArrears: Record<string, number>;
+  // Payouts late that supplements, premiums and statutory overtime are paid
+  supplementArrears: number;
+}
+
+export const DEFAULT_PAY_PERIODS: PayPeriodSettings = {
+  enabled: false,
+  cutoffDay: 31,
+  payoutDay: 20,
+  shiftArrears: {},
+  supplementArrears: 0
+};
+
+// Paid the Friday before when the payout day falls on a weekend
+export const getPayoutDate = (year: number, month: number, settings: PayPeriodSettings): Date => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const date = new Date(year, month, Math.min(settings.payoutDay, lastDay));
+  while (date.getDay() === 0 || date.getDay() === 6) date.setDate(date.getDate() - 1);
+  return date;
+};
+
+const getAdditionsAmount = (dayPay: DayPay): number =>
+  dayPay.supplements.reduce((sum, s) => sum + s.amount, 0) +
+  dayPay.premiums.reduce((sum, p) => sum + p.amount, 0) +
+  (dayPay.statutoryOvertime?.amount || 0);
+
+// The part of a day's pay that holds only its supplements, premiums and
+// statutory overtime, split off to be paid on its own
+export const isAdditionsPart = (dayPay: DayPay): boolean =>
+  dayPay.hours === 0 && dayPay.basePay === 0 && dayPay.overtimePay === 0 && getAdditionsAmount(dayPay) > 0;
+
+const splitDayPay = (dayPay: DayPay): [DayPay, DayPay] => {
+  const additions = getAdditionsAmount(dayPay);
+  return [
+    { ...dayPay, premiums: [], supplements: [], statutoryOvertime: undefined, earnings: dayPay.earnings - additions },
+    { ...dayPay, hours: 0, basePay: 0, overtimePay: 0, earnings: additions }
+  ];
+};
+
+// Like summarizeMonth, but split off parts only add to the supplements,
+// premiums and overtime and are not counted as shifts
+export const summarizePayDays = (year: number, month: number, days: DayPay[], baseRates: number[]): MonthPay => {
+  const shifts = summarizeMonth(year, month, days.filter(d => !isAdditionsPart(d)), baseRates);
+  const additions = summarizeMonth(year, month, days.filter(isAdditionsPart), baseRates);
+  return { ...combineMonthPays(year, month, [shifts, additions]), shiftData: shifts.shiftData, days };
+};
+
+// The months of a year by payout instead of by when the work was done. The
+// year before is needed for what its last periods pay out this year; work
+// after the last cutoff of the year is paid out the next year. Holiday pay
+// and the monthly salary stay in their own months.
+export const groupByPayout = (yearPay: YearPay, previousYearPay: YearPay, settings: PayPeriodSettings): YearPay => {
+  const year = yearPay.year;
+  const payouts = Array.from({ length: 12 }, () => [] as DayPay[]);
+  [...previousYearPay.months, ...yearPay.months].forEach(monthPay => monthPay.days.forEach(dayPay => {
+    const period = (dayPay.year - year) * 12 + dayPay.month + (dayPay.day > settings.cutoffDay ? 1 : 0);
+    const shiftPayout = period + (settings.shiftArrears[dayPay.shift.type] || 0);
+    const additionsPayout = period + settings.supplementArrears;
+    // Days are only split when their parts are paid in different payouts
+    const [shift, additions] = shiftPayout === additionsPayout ? [dayPay, undefined] : splitDayPay(dayPay);
+    if (shiftPayout >= 0 && shiftPayout < 12) payouts[shiftPayout].push(shift);
+    if (additions && additions.earnings > 0 && additionsPayout >= 0 && additionsPayout < 12) payouts[additionsPayout].push(additions);
+  }));
+
+  const months = payouts.map((payoutDays, month): MonthPay => {
+    const days = payoutDays.sort((a, b) =>
+      (a.year - b.year) * 10000 + (a.month - b.month) * 100 + a.day - b.day);
+    const rates = days.map(d => d.baseRate).filter((rate, index, all) => all.indexOf(rate) === index);
+    const baseRates = rates.length ? rates : yearPay.months[month].baseRates;
+    const summary = summarizePayDays(year, month, days, baseRates);
+    const { holidayPay, salary } = yearPay.months[month];
+    return {
+      ...summary,
+      holidayPay,
+      salary,
+      total: summary.total + (holidayPay ? holidayPay.amount - holidayPay.deduction : 0) + (salary || 0)
+    };
+  });
+
+  return {
+    ...yearPay,
+    months,
+    total: months.reduce((sum, m) => sum + m.total, 0),
+    earned: months.reduce((sum, m) => sum + m.earned, 0),
+    projected: months.reduce((sum, m) => sum + m.projected, 0)
+  };
+};
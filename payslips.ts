@@ -0,0 +1,96 @@
+// Payslips entered for each month and how they compare with what the worked
+// days add up to, to find pay that is missing or paid twice.
+
+import { MonthPay, YearPay } from './payEngine';
+
+export interface Payslip {
+  jobId?: string;
+  year: number;
+  month: number;
+  gross: number;
+  net?: number;
+}
+
+// Differences below this are rounding on the payslip
+export const PAYSLIP_TOLERANCE = 1;
+
+export interface ShiftTypeDifference {
+  shiftType: string;
+  days: number;
+  hours: number;
+  earnings: number;
+  // The gross difference counted in shifts and in hours of this type
+  shifts: number;
+  hoursDifference: number;
+  // The difference is close to a whole number of these shifts
+  likely: boolean;
+}
+
+export interface PayslipCheck {
+  payslip: Payslip;
+  expectedGross: number;
+  expectedNet?: number;
+  // What was paid minus what was calculated, negative when underpaid
+  grossDifference: number;
+  netDifference?: number;
+  matches: boolean;
+  breakdown: ShiftTypeDifference[];
+}
+
+const isWholeNumber = (value: number) => Math.abs(value) >= 0.5 && Math.abs(value - Math.round(value)) <= 0.1;
+
+// Each shift type of the month with the difference expressed in its shifts,
+// the types that explain it with whole shifts first
+export const getShiftTypeDifferences = (monthPay: MonthPay, difference: number): ShiftTypeDifference[] =>
+  Object.entries(monthPay.shiftData)
+    .filter(([, summary]) => summary.days > 0 && summary.earnings > 0)
+    .map(([shiftType, summary]) => {
+      const shifts = difference / (summary.earnings / summary.days);
+      return {
+        shiftType,
+        days: summary.days,
+        hours: summary.hours,
+        earnings: summary.earnings,
+        shifts,
+        hoursDifference: summary.hours > 0 ? difference / (summary.earnings / summary.hours) : 0,
+        likely: isWholeNumber(shifts)
+      };
+    })
+    .sort((a, b) => Number(b.likely) - Number(a.likely) || b.earnings - a.earnings);
+
+export const checkPayslip = (payslip: Payslip, monthPay: MonthPay, expectedNet?: number): PayslipCheck => {
+  const grossDifference = payslip.gross - monthPay.total;
+  const netDifference = payslip.net !== undefined && expectedNet !== undefined ? payslip.net - expectedNet : undefined;
+  const matches = Math.abs(grossDifference) < PAYSLIP_TOLERANCE &&
+    (netDifference === undefined || Math.abs(netDifference) < PAYSLIP_TOLERANCE);
+  return {
+    payslip,
+    expectedGross: monthPay.total,
+    expectedNet,
+    grossDifference,
+    netDifference,
+    matches,
+    breakdown: matches ? [] : getShiftTypeDifferences(monthPay, grossDifference)
+  };
+};
+
+// The months of a year that have a payslip, checked. Payslips of several jobs
+// in the same month are added up.
+export const reconcileYear = (
+  payslips: Payslip[],
+  yearPay: YearPay,
+  getExpectedNet: (monthPay: MonthPay) => number | undefined
+): PayslipCheck[] =>
+  yearPay.months.flatMap(monthPay => {
+    const monthPayslips = payslips.filter(p => p.year === yearPay.year && p.month === monthPay.month);
+    if (!monthPayslips.length) return [];
+    const payslip: Payslip = {
+      year: yearPay.year,
+      month: monthPay.month,
+      gross: monthPayslips.reduce((sum, p) => sum + p.gross, 0),
+      net: monthPayslips.every(p => p.net !== undefined)
+        ? monthPayslips.reduce((sum, p) => sum + (p.net || 0), 0)
+        : undefined
+    };
+    return [checkPayslip(payslip, monthPay, getExpectedNet(monthPay))];
+  });
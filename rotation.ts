@@ -0,0 +1,89 @@
+// Rotations (turnus): a repeating sequence of shift types and days off laid
+// out over a date range, e.g. 2 day / 2 evening / 2 night / 4 off.
+
+import { WorkDay, WorkedDays, toDateKey } from './payEngine';
+import { HolidayProvider } from './holidays';
+
+export interface RotationBlock {
+  // Undefined for days off
+  shiftType?: string;
+  days: number;
+}
+
+// What happens on a holiday the rotation would work: 'work' keeps the
+// rotation's shift, 'skip' leaves the day off and 'replace' uses holidayShiftType.
+// The rotation keeps counting through holidays either way.
+export type RotationHolidayMode = 'work' | 'skip' | 'replace';
+
+export interface RotationPlan {
+  blocks: RotationBlock[];
+  startDate: string;
+  endDate: string;
+  holidayMode: RotationHolidayMode;
+  holidayShiftType?: string;
+  // Replace the entries of days that already have some instead of skipping them
+  overwrite: boolean;
+}
+
+export interface RotationDay {
+  year: number;
+  month: number;
+  day: number;
+  shiftType: string;
+  holiday?: string;
+}
+
+const parseDateKey = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// One entry per day of the repeating sequence
+export const expandRotation = (blocks: RotationBlock[]): (string | undefined)[] =>
+  blocks.flatMap(block => Array.from({ length: Math.max(0, Math.floor(block.days)) }, () => block.shiftType));
+
+export const getRotationYears = (plan: RotationPlan): number[] => {
+  const from = parseDateKey(plan.startDate).getFullYear();
+  const to = parseDateKey(plan.endDate).getFullYear();
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+};
+
+// The shifts the rotation adds, without days off and without days that are
+// left alone. hasEntries tells whether a day already has entries of its own.
+export const generateRotation = (
+  plan: RotationPlan,
+  holidays: HolidayProvider,
+  hasEntries: (year: number, month: number, day: number) => boolean
+): RotationDay[] => {
+  const pattern = expandRotation(plan.blocks);
+  if (!pattern.length || !plan.startDate || !plan.endDate) return [];
+  const days: RotationDay[] = [];
+  const endKey = plan.endDate;
+  for (let date = parseDateKey(plan.startDate), index = 0; toDateKey(date) <= endKey; date.setDate(date.getDate() + 1), index++) {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    const day = date.getDate();
+    let shiftType = pattern[index % pattern.length];
+    const holiday = holidays.getHoliday(date);
+    if (shiftType && holiday) {
+      if (plan.holidayMode === 'skip') shiftType = undefined;
+      else if (plan.holidayMode === 'replace') shiftType = plan.holidayShiftType;
+    }
+    if (!shiftType || (!plan.overwrite && hasEntries(year, month, day))) continue;
+    days.push({ year, month, day, shiftType, holiday: holiday?.name });
+  }
+  return days;
+};
+
+// Adds the rotation's shifts. With overwrite, the entries that replaces says
+// belong to the rotation's view are removed from those days first.
+export const applyRotation = (
+  workedDays: WorkedDays,
+  rotationDays: RotationDay[],
+  toEntry: (day: RotationDay) => WorkDay,
+  replaces: (entry: WorkDay) => boolean
+): WorkedDays => rotationDays.reduce((acc, rotationDay) => {
+  const yearDays = (acc[rotationDay.year] || []).filter(wd =>
+    wd.month !== rotationDay.month || wd.day !== rotationDay.day || !replaces(wd));
+  return { ...acc, [rotationDay.year]: [...yearDays, toEntry(rotationDay)] };
+}, workedDays);
@@ -0,0 +1,170 @@
+// Versioned persistence. Stored data carries a schema version and is upgraded
+// on load by running the migrations newer than that version in order. A key
+// that can't be read is reported and kept aside instead of crashing the app.
+
+import { DEFAULT_ABSENCE_TYPES } from './absences';
+import { DEFAULT_JOB_ID, Job, createJobShiftTypes } from './jobs';
+
+export type StorageBackend = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface StorageIssue {
+  key: string;
+  error: string;
+  // Where the unreadable value was copied before the default was used
+  backupKey: string;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (store: StorageBackend, issues: StorageIssue[]) => void;
+}
+
+export const VERSION_KEY = 'storageVersion';
+
+const CORRUPT_PREFIX = 'corrupt:';
+
+const readJson = (store: StorageBackend, key: string, issues: StorageIssue[]): unknown => {
+  const raw = store.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    reportCorrupt(store, key, raw, error instanceof Error ? error.message : String(error), issues);
+    return undefined;
+  }
+};
+
+const reportCorrupt = (store: StorageBackend, key: string, raw: string, error: string, issues: StorageIssue[]) => {
+  const backupKey = `${CORRUPT_PREFIX}${key}`;
+  store.setItem(backupKey, raw);
+  if (!issues.some(issue => issue.key === key)) {
+    issues.push({ key, error, backupKey });
+  }
+};
+
+// Labels of the original four shift types, as they were when labelEn was added
+const LEGACY_ENGLISH_LABELS: { [type: string]: string } = {
+  day: 'Day Shift 🌇',
+  evening: 'Evening Shift 🏙️',
+  night: 'Night Shift 🌃',
+  overtime: 'Overtime 🕜💵'
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Shift types get an English label',
+    migrate: (store, issues) => {
+      const shiftTypes = readJson(store, 'shiftTypes', issues);
+      if (!Array.isArray(shiftTypes)) return;
+      store.setItem('shiftTypes', JSON.stringify(shiftTypes.map(shift => ({
+        ...shift,
+        labelEn: shift.labelEn || LEGACY_ENGLISH_LABELS[shift.type] || shift.label
+      }))));
+    }
+  },
+  {
+    version: 2,
+    description: 'Language and selected job are stored as JSON like every other key',
+    migrate: store => {
+      ['language', 'selectedJobId'].forEach(key => {
+        const raw = store.getItem(key);
+        if (raw !== null && !raw.startsWith('"')) {
+          store.setItem(key, JSON.stringify(raw));
+        }
+      });
+    }
+  },
+  {
+    version: 3,
+    description: 'The base rate and rate history move into the first job',
+    migrate: (store, issues) => {
+      if (store.getItem('jobs') !== null) return;
+      const baseRate = readJson(store, 'baseRate', issues);
+      const rateHistory = readJson(store, 'rateHistory', issues);
+      if (baseRate === undefined && rateHistory === undefined) return;
+      const language = readJson(store, 'language', issues);
+      store.setItem('jobs', JSON.stringify([{
+        id: 'main',
+        name: language === 'en' ? 'Main job' : 'Hovedjobb',
+        color: '#00e676',
+        baseRate: typeof baseRate === 'number' ? baseRate : 300,
+        rateHistory: Array.isArray(rateHistory) ? rateHistory : []
+      }]));
+      store.removeItem('baseRate');
+      store.removeItem('rateHistory');
+    }
+  },
+  {
+    version: 4,
+    description: 'Every job gets the default absence types',
+    migrate: (store, issues) => {
+      const shiftTypes = readJson(store, 'shiftTypes', issues);
+      if (!Array.isArray(shiftTypes)) return;
+      const jobs = readJson(store, 'jobs', issues);
+      const language = readJson(store, 'language', issues);
+      const templates = DEFAULT_ABSENCE_TYPES.map(def => ({ ...def, label: language === 'en' ? def.labelEn : def.label }));
+      const jobList: Job[] = Array.isArray(jobs) && jobs.length ? jobs : [{ id: DEFAULT_JOB_ID } as Job];
+      const added = jobList.flatMap(job => job.id === DEFAULT_JOB_ID ? templates : createJobShiftTypes(templates, job))
+        .filter(absence => !shiftTypes.some(shift => shift.type === absence.type));
+      store.setItem('shiftTypes', JSON.stringify([...shiftTypes, ...added]));
+    }
+  }
+];
+
+export const STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs the pending migrations and returns the keys that could not be read.
+// A migration that fails stops the upgrade so it is retried on the next load.
+export const migrateStorage = (store: StorageBackend): StorageIssue[] => {
+  const issues: StorageIssue[] = [];
+  const stored = Number(store.getItem(VERSION_KEY) || 0);
+  for (const migration of MIGRATIONS.filter(m => m.version > stored)) {
+    try {
+      migration.migrate(store, issues);
+    } catch (error) {
+      issues.push({
+        key: VERSION_KEY,
+        error: `${migration.description}: ${error instanceof Error ? error.message : String(error)}`,
+        backupKey: ''
+      });
+      return issues;
+    }
+    store.setItem(VERSION_KEY, String(migration.version));
+  }
+  return issues;
+};
+
+export interface AppStorage {
+  load: <T>(key: string, fallback: T, isValid?: (value: unknown) => boolean) => T;
+  save: (key: string, value: unknown) => void;
+  remove: (key: string) => void;
+  issues: StorageIssue[];
+}
+
+// Migrates on creation. Values that are not valid JSON, or that fail the
+// given check, are reported and backed up and the fallback is returned.
+export const createStorage = (store: StorageBackend): AppStorage => {
+  const issues = migrateStorage(store);
+  return {
+    load: <T>(key: string, fallback: T, isValid?: (value: unknown) => boolean): T => {
+      const raw = store.getItem(key);
+      const value = readJson(store, key, issues);
+      if (value === undefined) return fallback;
+      if (isValid && !isValid(value)) {
+        reportCorrupt(store, key, raw as string, 'Unexpected data shape', issues);
+        return fallback;
+      }
+      return value as T;
+    },
+    save: (key, value) => store.setItem(key, JSON.stringify(value)),
+    remove: key => store.removeItem(key),
+    issues
+  };
+};
+
+export const isArray = (value: unknown) => Array.isArray(value);
+
+export const isPlainObject = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,54 @@
+// Tax withheld from a month's gross pay, for a net pay estimate. Withholding
+// is either a flat percentage or a table of brackets on the monthly pay.
+
+import { MonthPay } from './payEngine';
+
+export type TaxMode = 'flat' | 'table';
+
+// The rate applies to the part of the monthly pay from `from` up to the next
+// bracket
+export interface TaxBracket {
+  from: number;
+  rate: number;
+}
+
+export interface TaxSettings {
+  enabled: boolean;
+  mode: TaxMode;
+  percentage: number;
+  brackets: TaxBracket[];
+  // Only half the tax is withheld in December
+  halfTaxDecember: boolean;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  enabled: false,
+  mode: 'flat',
+  percentage: 30,
+  brackets: [
+    { from: 0, rate: 0 },
+    { from: 6000, rate: 25 },
+    { from: 50000, rate: 35 },
+    { from: 100000, rate: 45 }
+  ],
+  halfTaxDecember: true
+};
+
+const calculateBracketTax = (gross: number, brackets: TaxBracket[]): number => {
+  const sorted = [...brackets].sort((a, b) => a.from - b.from);
+  return sorted.reduce((sum, bracket, index) => {
+    const to = index + 1 < sorted.length ? sorted[index + 1].from : Infinity;
+    return sum + Math.max(0, Math.min(gross, to) - bracket.from) * bracket.rate / 100;
+  }, 0);
+};
+
+export const calculateWithholding = (gross: number, month: number, settings: TaxSettings): number => {
+  if (!settings.enabled || gross <= 0) return 0;
+  const tax = settings.mode === 'flat'
+    ? gross * settings.percentage / 100
+    : calculateBracketTax(gross, settings.brackets);
+  return settings.halfTaxDecember && month === 11 ? tax / 2 : tax;
+};
+
+export const getMonthTax = (monthPay: MonthPay, settings: TaxSettings): number =>
+  calculateWithholding(monthPay.total, monthPay.month, settings);
@@ -0,0 +1,182 @@
+// Worked days in IndexedDB. Every shift entry is its own record indexed by
+// date and year, so a change only rewrites the days it touched and a year can
+// be read without the others. Falls back to localStorage where IndexedDB is
+// not available, or can't be opened before it was ever used.
+
+import { WorkDay, WorkedDays, toDateKey } from './payEngine';
+import { AppStorage, isPlainObject } from './storage';
+import { getJobId } from './jobs';
+
+export interface YearSummary {
+  year: number;
+  jobIds: string[];
+  shiftTypes: string[];
+}
+
+export interface WorkDayStore {
+  // Years with worked days and the jobs and shift types used, without the days
+  getYears: () => Promise<YearSummary[]>;
+  // Only years with worked days are included in the result
+  loadYears: (years: number[]) => Promise<WorkedDays>;
+  // Writes the dates whose entries differ from the previously saved year
+  saveYear: (year: number, days: WorkDay[], previous: WorkDay[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+interface WorkDayRecord extends WorkDay {
+  id?: number;
+  year: number;
+  date: string;
+  // Order of the entry within its day
+  position: number;
+}
+
+const DB_NAME = 'jobbtid';
+const DB_VERSION = 1;
+const DAYS = 'workDays';
+const YEARS = 'years';
+const LEGACY_KEY = 'workedDays';
+// Set once IndexedDB has held the days
+const INDEXED_KEY = 'workDaysIndexed';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const unique = (values: string[]) => values.filter((value, index, all) => all.indexOf(value) === index);
+
+const summarizeYear = (year: number, days: WorkDay[]): YearSummary => ({
+  year,
+  jobIds: unique(days.map(getJobId)),
+  shiftTypes: unique(days.map(wd => wd.shiftType))
+});
+
+const groupByDate = (year: number, days: WorkDay[]): Map<string, WorkDay[]> =>
+  days.reduce((acc, wd) => {
+    const date = toDateKey(new Date(year, wd.month, wd.day));
+    return acc.set(date, [...(acc.get(date) || []), wd]);
+  }, new Map<string, WorkDay[]>());
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const days = request.result.createObjectStore(DAYS, { keyPath: 'id', autoIncrement: true });
+    days.createIndex('date', 'date');
+    days.createIndex('year', 'year');
+    request.result.createObjectStore(YEARS, { keyPath: 'year' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+});
+
+// Replaces the records of the given dates and the year's summary in one transaction
+const writeYear = (db: IDBDatabase, year: number, days: WorkDay[], dates: string[]): Promise<void> => {
+  const tx = db.transaction([DAYS, YEARS], 'readwrite');
+  const dayStore = tx.objectStore(DAYS);
+  const byDate = groupByDate(year, days);
+  dates.forEach(date => {
+    const keysRequest = dayStore.index('date').getAllKeys(IDBKeyRange.only(date));
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(key => dayStore.delete(key));
+      (byDate.get(date) || []).forEach((wd, position) => {
+        const record: WorkDayRecord = { ...wd, year, date, position };
+        dayStore.add(record);
+      });
+    };
+  });
+  if (days.length) {
+    tx.objectStore(YEARS).put(summarizeYear(year, days));
+  } else {
+    tx.objectStore(YEARS).delete(year);
+  }
+  return transactionDone(tx);
+};
+
+// Moves the days kept in localStorage before IndexedDB was used. The old key
+// is only removed once the copy is committed, so a failed import is retried.
+const importLegacyDays = async (db: IDBDatabase, storage: AppStorage) => {
+  const legacy = storage.load<WorkedDays | undefined>(LEGACY_KEY, undefined, isPlainObject);
+  if (!legacy) return;
+  for (const year of Object.keys(legacy).map(Number)) {
+    const days = legacy[year] || [];
+    await writeYear(db, year, days, [...groupByDate(year, days).keys()]);
+  }
+  storage.remove(LEGACY_KEY);
+};
+
+const createIndexedWorkDayStore = (db: IDBDatabase): WorkDayStore => ({
+  getYears: () => requestResult<YearSummary[]>(db.transaction(YEARS).objectStore(YEARS).getAll()),
+  loadYears: async years => {
+    const index = db.transaction(DAYS).objectStore(DAYS).index('year');
+    const results = await Promise.all(years.map(year =>
+      requestResult<WorkDayRecord[]>(index.getAll(IDBKeyRange.only(year)))));
+    return results.reduce((acc, records, i) => {
+      if (!records.length) return acc;
+      const days = records
+        .sort((a, b) => a.date.localeCompare(b.date) || a.position - b.position)
+        .map(({ id, year, date, position, ...wd }) => wd);
+      return { ...acc, [years[i]]: days };
+    }, {} as WorkedDays);
+  },
+  saveYear: (year, days, previous) => {
+    const before = groupByDate(year, previous);
+    const after = groupByDate(year, days);
+    const changed = [...new Set([...before.keys(), ...after.keys()])]
+      .filter(date => JSON.stringify(before.get(date)) !== JSON.stringify(after.get(date)));
+    return changed.length ? writeYear(db, year, days, changed) : Promise.resolve();
+  },
+  clear: () => {
+    const tx = db.transaction([DAYS, YEARS], 'readwrite');
+    tx.objectStore(DAYS).clear();
+    tx.objectStore(YEARS).clear();
+    return transactionDone(tx);
+  }
+});
+
+// The previous format: every year in one localStorage value
+const createLocalWorkDayStore = (storage: AppStorage): WorkDayStore => {
+  let data = storage.load<WorkedDays>(LEGACY_KEY, {}, isPlainObject);
+  return {
+    getYears: async () => Object.keys(data)
+      .map(Number)
+      .filter(year => data[year].length)
+      .map(year => summarizeYear(year, data[year])),
+    loadYears: async years => years
+      .filter(year => data[year]?.length)
+      .reduce((acc, year) => ({ ...acc, [year]: data[year] }), {} as WorkedDays),
+    saveYear: async (year, days) => {
+      data = { ...data, [year]: days };
+      storage.save(LEGACY_KEY, data);
+    },
+    clear: async () => {
+      data = {};
+      storage.remove(LEGACY_KEY);
+    }
+  };
+};
+
+export const openWorkDayStore = (storage: AppStorage): Promise<WorkDayStore> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(createLocalWorkDayStore(storage));
+  }
+  return openDatabase()
+    .then(async db => {
+      await importLegacyDays(db, storage);
+      storage.save(INDEXED_KEY, true);
+      return createIndexedWorkDayStore(db);
+    })
+    .catch(error => {
+      // Once the days have been moved to IndexedDB, an empty localStorage
+      // store would hide them and take new entries in their place
+      if (storage.load(INDEXED_KEY, false)) throw error;
+      return createLocalWorkDayStore(storage);
+    });
+};